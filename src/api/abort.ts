@@ -0,0 +1,37 @@
+import { PjAbortError } from "./types.js";
+
+/**
+ * Throw a PjAbortError if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new PjAbortError("The operation was aborted", signal.reason);
+  }
+}
+
+/**
+ * Replace an error caused by aborting a signal with a PjAbortError
+ *
+ * Errors are returned unchanged when the signal was not aborted, so timeouts
+ * and other failures keep their original error.
+ */
+export function toAbortError(error: unknown, signal?: AbortSignal): unknown {
+  if (signal?.aborted && !(error instanceof PjAbortError)) {
+    return new PjAbortError("The operation was aborted", signal.reason);
+  }
+  return error;
+}
+
+/**
+ * Combine an optional caller signal with a timeout
+ *
+ * No listener is left on the caller's signal, so it can be reused for any
+ * number of operations.
+ *
+ * @returns A signal that aborts when either the caller's signal aborts or the
+ *   timeout elapses
+ */
+export function withTimeout(signal: AbortSignal | undefined, ms: number): AbortSignal {
+  const timeout = AbortSignal.timeout(ms);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
@@ -7,16 +7,20 @@ import { executePj } from "../cli/executor.js";
 
 /**
  * Clear the pj project cache
+ *
+ * @param profile - Clear the cache of this config profile instead
  */
-export async function clearCache(): Promise<void> {
-  await executePj(["--clear-cache"]);
+export async function clearCache(profile?: string): Promise<void> {
+  await executePj(["--clear-cache"], undefined, { profile });
 }
 
 /**
  * Get information about the pj cache
+ *
+ * @param profile - Describe the cache of this config profile instead
  */
-export async function getCacheInfo(): Promise<CacheInfo> {
-  const cacheDir = getPjCacheDir();
+export async function getCacheInfo(profile?: string): Promise<CacheInfo> {
+  const cacheDir = getPjCacheDir(profile);
 
   try {
     const stats = await fs.stat(cacheDir);
@@ -67,7 +71,9 @@ export async function getCacheInfo(): Promise<CacheInfo> {
 
 /**
  * Get the cache directory path
+ *
+ * @param profile - Get the cache directory of this config profile instead
  */
-export function getCachePath(): string {
-  return getPjCacheDir();
+export function getCachePath(profile?: string): string {
+  return getPjCacheDir(profile);
 }
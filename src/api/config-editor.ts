@@ -0,0 +1,559 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { isDeepStrictEqual } from "node:util";
+import * as yaml from "yaml";
+
+import type {
+  ConfigMigrationConflict,
+  ConfigMigrationResult,
+  MarkerDefinition,
+  PjConfig,
+  SearchPath,
+} from "./types.js";
+import { PjConfigError } from "./types.js";
+import { DEFAULT_CONFIG, expandPath, toRawConfig } from "./config.js";
+import { getPjConfigPath } from "../binary/constants.js";
+
+/**
+ * Scalar options that can be set with `ConfigEditor#setOption`
+ */
+export type ConfigOption = "maxDepth" | "cacheTTL" | "noIgnore" | "noNested";
+
+/** YAML keys of the scalar options */
+const OPTION_KEYS: Record<ConfigOption, string> = {
+  maxDepth: "max_depth",
+  cacheTTL: "cache_ttl",
+  noIgnore: "no_ignore",
+  noNested: "no_nested",
+};
+
+/** Legacy maps holding marker metadata, by marker field */
+const LEGACY_MAPS = { icon: "icons", color: "colors", priority: "priorities" } as const;
+
+/**
+ * Convert a search path to the YAML form written to the config
+ */
+function rawSearchPath(entry: SearchPath): unknown {
+  if (typeof entry === "string") {
+    return entry;
+  }
+  const raw: Record<string, unknown> = { path: entry.path };
+  if (entry.maxDepth !== undefined) raw["max_depth"] = entry.maxDepth;
+  if (entry.markers !== undefined) raw["markers"] = entry.markers;
+  if (entry.exclude !== undefined) raw["exclude"] = entry.exclude;
+  if (entry.noNested !== undefined) raw["no_nested"] = entry.noNested;
+  if (entry.tags !== undefined) raw["tags"] = entry.tags;
+  return Object.keys(raw).length === 1 ? entry.path : raw;
+}
+
+/**
+ * Get the string a list item is identified by: the item itself, or the
+ * given field of a mapping item
+ */
+function itemName(item: unknown, field?: string): string | undefined {
+  if (yaml.isScalar(item)) {
+    return typeof item.value === "string" ? item.value : undefined;
+  }
+  if (field !== undefined && yaml.isMap(item)) {
+    const value = item.get(field);
+    return typeof value === "string" ? value : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Edits a pj config file in place, preserving comments and formatting
+ *
+ * Changes are made to the parsed YAML document, so everything that isn't
+ * edited is written back unchanged. Markers are written in the object format
+ * (`- marker: go.mod` with `icon`, `color` and `priority`).
+ *
+ * When the file doesn't list `paths`, `markers` or `exclude` yet, the first
+ * edit to that list starts from the defaults, since a list in the file
+ * replaces the defaults rather than adding to them.
+ *
+ * @example
+ * ```typescript
+ * const editor = await ConfigEditor.open();
+ * editor.addPath('~/work');
+ * editor.addMarker({ marker: 'deno.json', icon: '', priority: 10 });
+ * editor.setOption('maxDepth', 4);
+ * await editor.save();
+ * ```
+ */
+export class ConfigEditor {
+  private readonly doc: yaml.Document;
+
+  /**
+   * @param content - YAML content of the config file
+   * @param filePath - File written by `save()`
+   * @throws PjConfigError if the content isn't valid YAML or isn't a mapping
+   */
+  constructor(
+    content: string,
+    readonly filePath: string = getPjConfigPath()
+  ) {
+    this.doc = yaml.parseDocument(content);
+    const [error] = this.doc.errors;
+    if (error) {
+      throw new PjConfigError(`Failed to parse config ${filePath}: ${error.message}`);
+    }
+    this.doc.contents ??= this.doc.createNode({});
+    if (!yaml.isMap(this.doc.contents)) {
+      throw new PjConfigError(`Config ${filePath} is not a mapping`);
+    }
+  }
+
+  /**
+   * Open a config file for editing
+   *
+   * A missing file is edited as an empty config and created on `save()`.
+   *
+   * @param configPath - Path to the config file (defaults to the pj config path)
+   */
+  static async open(configPath?: string): Promise<ConfigEditor> {
+    const filePath = configPath ?? getPjConfigPath();
+    let content = "";
+    try {
+      content = await fs.readFile(filePath, "utf-8");
+    } catch (error) {
+      if (!(error instanceof Error && "code" in error && error.code === "ENOENT")) {
+        throw new PjConfigError(
+          `Failed to read config from ${filePath}`,
+          error instanceof Error ? error : undefined
+        );
+      }
+    }
+    return new ConfigEditor(content, filePath);
+  }
+
+  /**
+   * Add a search path, unless it is already listed
+   *
+   * @returns Whether the path was added
+   */
+  addPath(entry: SearchPath): boolean {
+    const paths = this.list("paths", DEFAULT_CONFIG.paths.map(rawSearchPath));
+    const target = expandPath(typeof entry === "string" ? entry : entry.path);
+    const exists = paths.items.some((item) => {
+      const name = itemName(item, "path");
+      return name !== undefined && expandPath(name) === target;
+    });
+    if (exists) {
+      return false;
+    }
+    paths.add(this.doc.createNode(rawSearchPath(entry)));
+    return true;
+  }
+
+  /**
+   * Remove a search path
+   *
+   * @returns Whether the path was listed
+   */
+  removePath(searchPath: string): boolean {
+    const target = expandPath(searchPath);
+    const defaults = DEFAULT_CONFIG.paths.map(rawSearchPath);
+    return this.removeItems("paths", defaults, (item) => {
+      const name = itemName(item, "path");
+      return name !== undefined && expandPath(name) === target;
+    });
+  }
+
+  /**
+   * Add a marker, or update the icon, color and priority of a listed one
+   *
+   * Markers with metadata are written as objects, and the marker's entries in
+   * the deprecated `icons`, `colors` and `priorities` maps are removed.
+   */
+  addMarker(definition: MarkerDefinition | string): void {
+    const { marker, ...metadata } =
+      typeof definition === "string" ? { marker: definition } : definition;
+    const markers = this.list("markers", DEFAULT_CONFIG.markers);
+    const index = markers.items.findIndex((item) => itemName(item, "marker") === marker);
+    const existing = markers.items[index];
+
+    const fields = Object.entries(metadata);
+    if (fields.length === 0) {
+      if (index === -1) {
+        markers.add(this.doc.createNode(marker));
+      }
+      return;
+    }
+
+    let node: yaml.YAMLMap;
+    if (yaml.isMap(existing)) {
+      node = existing;
+    } else {
+      node = this.doc.createNode({ marker }) as yaml.YAMLMap;
+      if (index === -1) {
+        markers.add(node);
+      } else {
+        markers.set(index, node);
+      }
+    }
+
+    for (const [field, value] of fields) {
+      node.set(field, value);
+      this.removeLegacyEntry(LEGACY_MAPS[field as keyof typeof LEGACY_MAPS], marker);
+    }
+  }
+
+  /**
+   * Remove a marker
+   *
+   * @returns Whether the marker was listed
+   */
+  removeMarker(marker: string): boolean {
+    const removed = this.removeItems(
+      "markers",
+      DEFAULT_CONFIG.markers,
+      (item) => itemName(item, "marker") === marker
+    );
+    for (const map of Object.values(LEGACY_MAPS)) {
+      this.removeLegacyEntry(map, marker);
+    }
+    return removed;
+  }
+
+  /**
+   * Add an exclude pattern, unless it is already listed
+   *
+   * @returns Whether the pattern was added
+   */
+  addExclude(pattern: string): boolean {
+    const exclude = this.list("exclude", DEFAULT_CONFIG.exclude);
+    if (exclude.items.some((item) => itemName(item) === pattern)) {
+      return false;
+    }
+    exclude.add(this.doc.createNode(pattern));
+    return true;
+  }
+
+  /**
+   * Remove an exclude pattern
+   *
+   * @returns Whether the pattern was listed
+   */
+  removeExclude(pattern: string): boolean {
+    return this.removeItems(
+      "exclude",
+      DEFAULT_CONFIG.exclude,
+      (item) => itemName(item) === pattern
+    );
+  }
+
+  /**
+   * Set a scalar option, such as `maxDepth` or `noIgnore`
+   */
+  setOption<K extends ConfigOption>(option: K, value: PjConfig[K]): void {
+    const contents = this.contents();
+    const key = OPTION_KEYS[option];
+    const existing = contents.get(key, true);
+    if (yaml.isScalar(existing)) {
+      // Keep the node so comments attached to it survive
+      existing.value = value;
+    } else {
+      contents.set(key, value);
+    }
+  }
+
+  /**
+   * Remove a scalar option so the default applies
+   *
+   * @returns Whether the option was set
+   */
+  unsetOption(option: ConfigOption): boolean {
+    return this.contents().delete(OPTION_KEYS[option]);
+  }
+
+  /**
+   * Write config values into the file, changing only the values that differ
+   *
+   * Lists are replaced, keeping the nodes (and comments) of items that are
+   * still listed. Icons, colors and priorities are written to the marker
+   * objects of listed markers as with `addMarker`; only markers that aren't
+   * listed get entries in the deprecated maps. Project settings and profiles
+   * are set by key.
+   */
+  applyConfig(config: Partial<PjConfig>): void {
+    for (const [option, key] of Object.entries(OPTION_KEYS) as [ConfigOption, string][]) {
+      const value = config[option];
+      if (value !== undefined && this.contents().get(key) !== value) {
+        this.setOption(option, value);
+      }
+    }
+
+    if (config.paths !== undefined) {
+      this.replaceList("paths", config.paths.map(rawSearchPath), (node, item) =>
+        isDeepStrictEqual(node.toJSON(), item)
+      );
+    }
+    if (config.markers !== undefined) {
+      // Metadata is applied below, so a marker object still lists its marker
+      this.replaceList(
+        "markers",
+        config.markers,
+        (node, item) => itemName(node, "marker") === item
+      );
+    }
+    if (config.exclude !== undefined) {
+      this.replaceList("exclude", config.exclude, (node, item) => itemName(node) === item);
+    }
+
+    for (const [field, mapKey] of Object.entries(LEGACY_MAPS)) {
+      const values: Record<string, string | number> = config[mapKey] ?? {};
+      for (const [marker, value] of Object.entries(values)) {
+        this.setMarkerField(marker, field as keyof typeof LEGACY_MAPS, value);
+      }
+    }
+
+    for (const [pattern, settings] of Object.entries(config.projects ?? {})) {
+      this.setEntry("projects", pattern, settings);
+    }
+    for (const [name, profile] of Object.entries(config.profiles ?? {})) {
+      this.setEntry("profiles", name, toRawConfig(profile));
+    }
+  }
+
+  /**
+   * Move the deprecated `icons`, `colors` and `priorities` maps into the
+   * marker objects of the markers list
+   *
+   * Entries that disagree with their marker object, and entries for markers
+   * that aren't listed, are left in place and reported. Maps are removed once
+   * every entry has moved.
+   */
+  migrateLegacyMaps(): Pick<ConfigMigrationResult, "migrated" | "conflicts" | "unlisted"> {
+    const result = {
+      migrated: [] as string[],
+      conflicts: [] as ConfigMigrationConflict[],
+      unlisted: [] as string[],
+    };
+
+    const legacy = new Map<string, [keyof typeof LEGACY_MAPS, yaml.Scalar][]>();
+    for (const [field, mapKey] of Object.entries(LEGACY_MAPS)) {
+      const map = this.contents().get(mapKey, true);
+      if (!yaml.isMap(map)) {
+        continue;
+      }
+      for (const pair of map.items) {
+        const marker = itemName(pair.key);
+        const value = pair.value;
+        const valid =
+          yaml.isScalar(value) &&
+          (typeof value.value === "string" || typeof value.value === "number");
+        if (marker === undefined || !valid) {
+          continue;
+        }
+        const entries = legacy.get(marker) ?? [];
+        entries.push([field as keyof typeof LEGACY_MAPS, value]);
+        legacy.set(marker, entries);
+      }
+    }
+
+    // Look markers up without seeding the list, which only happens on a move
+    const existing = this.contents().get("markers", true);
+    const listed = yaml.isSeq(existing)
+      ? existing.items.map((item) => itemName(item, "marker"))
+      : DEFAULT_CONFIG.markers;
+
+    for (const [marker, entries] of legacy) {
+      if (!listed.includes(marker)) {
+        result.unlisted.push(marker);
+        continue;
+      }
+
+      const markers = this.list("markers", DEFAULT_CONFIG.markers);
+      const index = markers.items.findIndex((item) => itemName(item, "marker") === marker);
+      const item = markers.items[index];
+      let node = yaml.isMap(item) ? item : undefined;
+      let moved = false;
+
+      for (const [field, value] of entries) {
+        const current: unknown = node?.get(field);
+        const legacyValue = value.value as string | number;
+        if (current !== undefined && current !== legacyValue) {
+          result.conflicts.push({ marker, field, legacyValue, markerValue: current });
+          continue;
+        }
+        if (!node) {
+          // Keep the item's own node, and with it any comment on the marker
+          node = this.doc.createNode({}) as yaml.YAMLMap;
+          node.set("marker", item);
+          markers.set(index, node);
+        }
+        // Move the node itself so quoting and comments are kept
+        node.set(field, value);
+        this.removeLegacyEntry(LEGACY_MAPS[field], marker);
+        moved = true;
+      }
+
+      if (moved) {
+        result.migrated.push(marker);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the edited config as YAML
+   */
+  toString(): string {
+    return this.doc.toString();
+  }
+
+  /**
+   * Write the edited config to its file
+   */
+  async save(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, this.toString(), "utf-8");
+  }
+
+  private contents(): yaml.YAMLMap {
+    return this.doc.contents as yaml.YAMLMap;
+  }
+
+  /**
+   * Get a list from the config, starting from the defaults if it isn't set
+   */
+  private list(key: string, defaults: unknown[]): yaml.YAMLSeq {
+    const existing = this.contents().get(key, true);
+    if (yaml.isSeq(existing)) {
+      return existing;
+    }
+    // An empty value (`paths:`) counts as unset
+    if (existing !== undefined && !(yaml.isScalar(existing) && existing.value === null)) {
+      throw new PjConfigError(`"${key}" in ${this.filePath} is not a list`);
+    }
+    const created = this.doc.createNode(defaults) as yaml.YAMLSeq;
+    this.contents().set(key, created);
+    return created;
+  }
+
+  /**
+   * Remove the items of a list that match, leaving the file unchanged if
+   * none do
+   */
+  private removeItems(
+    key: string,
+    defaults: unknown[],
+    matches: (item: unknown) => boolean
+  ): boolean {
+    const existing = this.contents().get(key, true);
+    const items = yaml.isSeq(existing)
+      ? existing.items
+      : (this.doc.createNode(defaults) as yaml.YAMLSeq).items;
+    if (!items.some(matches)) {
+      return false;
+    }
+    this.list(key, defaults).items = items.filter((item) => !matches(item));
+    return true;
+  }
+
+  /**
+   * Set the items of a list, reusing the nodes of existing items that match
+   */
+  private replaceList(
+    key: string,
+    items: unknown[],
+    matches: (node: yaml.Node, item: unknown) => boolean
+  ): void {
+    const existing = this.contents().get(key, true);
+    const current = yaml.isSeq(existing) ? existing.items.filter(yaml.isNode) : [];
+    const nodes = items.map(
+      (item) =>
+        current.find((node) => matches(node, item)) ?? (this.doc.createNode(item) as yaml.Node)
+    );
+    if (yaml.isSeq(existing)) {
+      const unchanged =
+        nodes.length === existing.items.length &&
+        nodes.every((node, i) => node === existing.items[i]);
+      if (!unchanged) {
+        existing.items = nodes;
+      }
+      return;
+    }
+    const list = this.doc.createNode([]) as yaml.YAMLSeq;
+    list.items = nodes;
+    this.contents().set(key, list);
+  }
+
+  /**
+   * Set a marker's icon, color or priority, unless it already has the value
+   */
+  private setMarkerField(
+    marker: string,
+    field: keyof typeof LEGACY_MAPS,
+    value: string | number
+  ): void {
+    const existing = this.contents().get("markers", true);
+    const items = yaml.isSeq(existing) ? existing.items : undefined;
+    const listed = items
+      ? items.find((item) => itemName(item, "marker") === marker)
+      : DEFAULT_CONFIG.markers.includes(marker) ? marker : undefined;
+
+    const current: unknown =
+      (yaml.isMap(listed) ? listed.get(field) : undefined) ??
+      this.contents().getIn([LEGACY_MAPS[field], marker]);
+    if (current === value) {
+      return;
+    }
+    if (listed === undefined) {
+      // Only the deprecated maps can hold metadata for unlisted markers
+      this.contents().setIn([LEGACY_MAPS[field], marker], value);
+    } else {
+      this.addMarker({ marker, [field]: value });
+    }
+  }
+
+  /**
+   * Set an entry of a mapping such as `projects`, unless it is unchanged
+   */
+  private setEntry(mapKey: string, key: string, value: unknown): void {
+    const existing = this.contents().getIn([mapKey, key], true);
+    if (!(yaml.isNode(existing) && isDeepStrictEqual(existing.toJSON(), value))) {
+      this.contents().setIn([mapKey, key], this.doc.createNode(value));
+    }
+  }
+
+  /**
+   * Remove a marker's entry from a deprecated metadata map, and the map once
+   * it is empty
+   */
+  private removeLegacyEntry(mapKey: string, marker: string): void {
+    const map = this.contents().get(mapKey, true);
+    if (!yaml.isMap(map)) {
+      return;
+    }
+    map.delete(marker);
+    if (map.items.length === 0) {
+      this.contents().delete(mapKey);
+    }
+  }
+}
+
+/**
+ * Edit a config file in place and save it
+ *
+ * @param edit - Makes changes through the editor
+ * @param configPath - Path to the config file (defaults to the pj config path)
+ *
+ * @example
+ * ```typescript
+ * await editConfig((config) => {
+ *   config.removeExclude('vendor');
+ *   config.setOption('noIgnore', true);
+ * });
+ * ```
+ */
+export async function editConfig(
+  edit: (editor: ConfigEditor) => void | Promise<void>,
+  configPath?: string
+): Promise<void> {
+  const editor = await ConfigEditor.open(configPath);
+  await edit(editor);
+  await editor.save();
+}
@@ -0,0 +1,384 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import type {
+  ConfigLayer,
+  ConfigValueSource,
+  PjConfig,
+  PjProfile,
+  ResolveConfigOptions,
+  SearchPath,
+} from "./types.js";
+import { PjConfigError } from "./types.js";
+import {
+  DEFAULT_CONFIG,
+  expandPath,
+  mergeConfig,
+  mergeProfile,
+  readConfigFile,
+  resolveConfigPaths,
+  saveConfig,
+} from "./config.js";
+import {
+  getPjConfigPath,
+  getProfileCacheHome,
+  getSystemConfigPath,
+  PROJECT_CONFIG_FILENAME,
+} from "../binary/constants.js";
+
+/**
+ * Environment variables read into the `env` layer, by config key
+ *
+ * `PJ_PATHS` is separated like `PATH`; `PJ_MARKERS` and `PJ_EXCLUDE` are
+ * comma-separated.
+ */
+export const CONFIG_ENV_VARS = {
+  paths: "PJ_PATHS",
+  markers: "PJ_MARKERS",
+  exclude: "PJ_EXCLUDE",
+  maxDepth: "PJ_MAX_DEPTH",
+  cacheTTL: "PJ_CACHE_TTL",
+  noIgnore: "PJ_NO_IGNORE",
+  noNested: "PJ_NO_NESTED",
+} as const satisfies Partial<Record<keyof PjConfig, string>>;
+
+/** Environment variable selecting the config profile */
+export const PROFILE_ENV_VAR = "PJ_PROFILE";
+
+function splitList(value: string, separator: string): string[] {
+  return value
+    .split(separator)
+    .map((item) => item.trim())
+    .filter((item) => item !== "");
+}
+
+function parseNumber(name: string, value: string, integer: boolean): number {
+  const parsed = Number(value);
+  if (
+    value.trim() === "" ||
+    !Number.isFinite(parsed) ||
+    parsed < 0 ||
+    (integer && !Number.isInteger(parsed))
+  ) {
+    const expected = integer ? "a non-negative integer" : "a non-negative number";
+    throw new PjConfigError(`Invalid ${name} "${value}": expected ${expected}`);
+  }
+  return parsed;
+}
+
+function parseBoolean(name: string, value: string): boolean {
+  switch (value.trim().toLowerCase()) {
+    case "1":
+    case "true":
+    case "yes":
+    case "on":
+      return true;
+    case "0":
+    case "false":
+    case "no":
+    case "off":
+      return false;
+    default:
+      throw new PjConfigError(`Invalid ${name} "${value}": expected true or false`);
+  }
+}
+
+/**
+ * Read config values from `PJ_*` environment variables
+ *
+ * Unset and empty variables are ignored.
+ *
+ * @param env - Environment to read (defaults to process.env)
+ * @throws PjConfigError if a variable has an invalid value
+ */
+export function readEnvConfig(
+  env: Record<string, string | undefined> = process.env
+): Partial<PjConfig> {
+  const config: Partial<PjConfig> = {};
+  const get = (name: string): string | undefined => {
+    const value = env[name];
+    return value === undefined || value === "" ? undefined : value;
+  };
+
+  const paths = get(CONFIG_ENV_VARS.paths);
+  const markers = get(CONFIG_ENV_VARS.markers);
+  const exclude = get(CONFIG_ENV_VARS.exclude);
+  const maxDepth = get(CONFIG_ENV_VARS.maxDepth);
+  const cacheTTL = get(CONFIG_ENV_VARS.cacheTTL);
+  const noIgnore = get(CONFIG_ENV_VARS.noIgnore);
+  const noNested = get(CONFIG_ENV_VARS.noNested);
+
+  if (paths !== undefined) config.paths = splitList(paths, path.delimiter);
+  if (markers !== undefined) config.markers = splitList(markers, ",");
+  if (exclude !== undefined) config.exclude = splitList(exclude, ",");
+  if (maxDepth !== undefined) {
+    config.maxDepth = parseNumber(CONFIG_ENV_VARS.maxDepth, maxDepth, true);
+  }
+  if (cacheTTL !== undefined) {
+    config.cacheTTL = parseNumber(CONFIG_ENV_VARS.cacheTTL, cacheTTL, false);
+  }
+  if (noIgnore !== undefined) {
+    config.noIgnore = parseBoolean(CONFIG_ENV_VARS.noIgnore, noIgnore);
+  }
+  if (noNested !== undefined) {
+    config.noNested = parseBoolean(CONFIG_ENV_VARS.noNested, noNested);
+  }
+  return config;
+}
+
+/**
+ * Find the nearest `.pj.yaml`, starting from a directory and walking up
+ *
+ * @param cwd - Directory to start from (defaults to the working directory)
+ * @returns Path to the file, or undefined if there is none
+ */
+export async function findProjectConfig(
+  cwd: string = process.cwd()
+): Promise<string | undefined> {
+  let dir = path.resolve(cwd);
+  for (;;) {
+    const candidate = path.join(dir, PROJECT_CONFIG_FILENAME);
+    try {
+      if ((await fs.stat(candidate)).isFile()) {
+        return candidate;
+      }
+    } catch {
+      // Not here, keep walking up
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Resolve relative search paths of a project config against its directory
+ *
+ * Paths that are absolute once variables and ~ are expanded are kept as
+ * written.
+ */
+function resolveRelativePaths(
+  config: Partial<PjConfig>,
+  dir: string,
+  env: Record<string, string | undefined> = process.env
+): Partial<PjConfig> {
+  if (config.paths === undefined) {
+    return config;
+  }
+  const resolve = (p: string): string => {
+    const expanded = expandPath(p, env);
+    return path.isAbsolute(expanded) ? p : path.resolve(dir, expanded);
+  };
+  const paths = config.paths.map((entry): SearchPath =>
+    typeof entry === "string" ? resolve(entry) : { ...entry, path: resolve(entry.path) }
+  );
+  return { ...config, paths };
+}
+
+function nonEmpty(value: string | undefined): string | undefined {
+  return value === "" ? undefined : value;
+}
+
+/**
+ * Combine the definitions of a profile in the file layers into its layer
+ *
+ * A profile defined in several files has its settings combined, with later
+ * files taking precedence.
+ *
+ * @throws PjConfigError if no file defines the profile
+ */
+function profileLayer(name: string, fileLayers: ConfigLayer[]): ConfigLayer {
+  let config: PjProfile | undefined;
+  let source: string | undefined;
+  for (const layer of fileLayers) {
+    const profile = layer.config.profiles?.[name];
+    if (profile !== undefined) {
+      config = config ? mergeProfile(config, profile) : profile;
+      source = layer.source;
+    }
+  }
+
+  if (config === undefined) {
+    const available = [
+      ...new Set(fileLayers.flatMap((layer) => Object.keys(layer.config.profiles ?? {}))),
+    ];
+    throw new PjConfigError(
+      available.length > 0
+        ? `Unknown profile "${name}"; available profiles: ${available.join(", ")}`
+        : `Unknown profile "${name}"; no profiles are configured`
+    );
+  }
+  return { name: "profile", source, config };
+}
+
+/**
+ * Read every config layer, from lowest to highest precedence
+ *
+ * Layers that set nothing, such as missing files, are left out; the
+ * `default` layer is always first. Relative search paths in `.pj.yaml` are
+ * resolved against the directory of the file. The selected profile is taken
+ * from the `profiles` sections of the files, and applied on top of them.
+ *
+ * @param options - Where to read the layers from
+ * @throws PjConfigError if a file or environment variable is invalid
+ */
+export async function loadConfigLayers(
+  options?: ResolveConfigOptions
+): Promise<ConfigLayer[]> {
+  const layers: ConfigLayer[] = [
+    { name: "default", source: undefined, config: DEFAULT_CONFIG },
+  ];
+  const loadOptions = { strict: options?.strict ?? false };
+
+  const systemPath = options?.systemConfigPath ?? getSystemConfigPath();
+  const system = await readConfigFile(systemPath, loadOptions);
+  if (system) {
+    layers.push({ name: "system", source: systemPath, config: system });
+  }
+
+  const userPath = options?.configPath ?? getPjConfigPath();
+  const user = await readConfigFile(userPath, loadOptions);
+  if (user) {
+    layers.push({ name: "user", source: userPath, config: user });
+  }
+
+  const cwd = options?.cwd;
+  const projectPath = cwd === false ? undefined : await findProjectConfig(cwd);
+  if (projectPath !== undefined) {
+    const project = await readConfigFile(projectPath, loadOptions);
+    if (project) {
+      layers.push({
+        name: "project",
+        source: projectPath,
+        config: resolveRelativePaths(project, path.dirname(projectPath), options?.env),
+      });
+    }
+  }
+
+  const envProfile = (options?.env ?? process.env)[PROFILE_ENV_VAR];
+  const profileName = options?.profile ?? nonEmpty(envProfile);
+  if (profileName !== undefined) {
+    layers.push(profileLayer(profileName, layers));
+  }
+
+  const env = readEnvConfig(options?.env);
+  if (Object.keys(env).length > 0) {
+    layers.push({ name: "env", source: undefined, config: env });
+  }
+
+  if (options?.overrides && Object.keys(options.overrides).length > 0) {
+    layers.push({ name: "override", source: undefined, config: options.overrides });
+  }
+
+  return layers;
+}
+
+/**
+ * List the files the layered config is read from, whether they exist or not
+ *
+ * @param options - Where to read the layers from
+ * @returns The system-wide file, the user file and the nearest `.pj.yaml`
+ *   if there is one
+ */
+export async function getConfigFiles(options?: ResolveConfigOptions): Promise<string[]> {
+  const files = [
+    options?.systemConfigPath ?? getSystemConfigPath(),
+    options?.configPath ?? getPjConfigPath(),
+  ];
+  const cwd = options?.cwd;
+  const projectPath = cwd === false ? undefined : await findProjectConfig(cwd);
+  if (projectPath !== undefined) {
+    files.push(projectPath);
+  }
+  return files;
+}
+
+/**
+ * Resolve the effective config from every layer
+ *
+ * Layers are applied in order: defaults, the system-wide file, the user
+ * file, the nearest `.pj.yaml` above the working directory, the selected
+ * profile, `PJ_*` environment variables and finally explicit overrides.
+ * Later layers replace earlier values, except for the `icons`, `colors`,
+ * `priorities` and `projects` maps, which are merged by key.
+ *
+ * @param options - Where to read the layers from
+ * @throws PjConfigError if a file or environment variable is invalid, or the
+ *   profile isn't configured
+ *
+ * @example
+ * ```typescript
+ * const config = await resolveConfig({ overrides: { maxDepth: 5 } });
+ * const work = await resolveConfig({ profile: 'work' });
+ * ```
+ */
+export async function resolveConfig(options?: ResolveConfigOptions): Promise<PjConfig> {
+  return mergeLayers(await loadConfigLayers(options));
+}
+
+function mergeLayers(layers: ConfigLayer[]): PjConfig {
+  return layers.reduce((config, layer) => mergeConfig(config, layer.config), {
+    ...DEFAULT_CONFIG,
+  });
+}
+
+/**
+ * Write the layered config of a profile to a file pj can read
+ *
+ * pj doesn't know about profiles, so the config with the profile applied,
+ * and its paths expanded, is written to the profile's cache home for use
+ * with `--config`.
+ *
+ * @param profile - Profile to apply
+ * @param options - Where to read the layers from
+ * @returns Path of the written config file
+ * @throws PjConfigError if the config is invalid or the profile isn't configured
+ */
+export async function writeProfileConfig(
+  profile: string,
+  options?: Omit<ResolveConfigOptions, "profile">
+): Promise<string> {
+  const { config } = await resolveConfigPaths(await resolveConfig({ ...options, profile }));
+  const filePath = path.join(getProfileCacheHome(profile), "config.yaml");
+  await saveConfig({ ...config, profiles: {} }, filePath);
+  return filePath;
+}
+
+/**
+ * Report which layer each effective config value came from
+ *
+ * @param options - Where to read the layers from
+ * @returns One entry per config key, in the order of `PjConfig`
+ * @throws PjConfigError if a file or environment variable is invalid
+ *
+ * @example
+ * ```typescript
+ * for (const { key, layer, source } of await explainConfig()) {
+ *   console.log(`${key}: ${layer}${source ? ` (${source})` : ''}`);
+ * }
+ * // maxDepth: env (PJ_MAX_DEPTH)
+ * // paths: project (/work/team/.pj.yaml)
+ * ```
+ */
+export async function explainConfig(
+  options?: ResolveConfigOptions
+): Promise<ConfigValueSource[]> {
+  const layers = await loadConfigLayers(options);
+  const config = mergeLayers(layers);
+
+  return (Object.keys(DEFAULT_CONFIG) as (keyof PjConfig)[]).map((key) => {
+    let layer: ConfigLayer = { name: "default", source: undefined, config: {} };
+    for (const candidate of layers) {
+      if (candidate.config[key] !== undefined) {
+        layer = candidate;
+      }
+    }
+    const source =
+      layer.name === "env" && key in CONFIG_ENV_VARS
+        ? CONFIG_ENV_VARS[key as keyof typeof CONFIG_ENV_VARS]
+        : layer.source;
+    return { key, value: config[key], layer: layer.name, source };
+  });
+}
@@ -0,0 +1,186 @@
+import * as fs from "node:fs/promises";
+
+import type { ConfigMigrationResult, MigrateConfigOptions } from "./types.js";
+import { PjConfigError } from "./types.js";
+import { ConfigEditor } from "./config-editor.js";
+import { getPjConfigPath } from "../binary/constants.js";
+
+/** Lines of unchanged context around each diff hunk */
+const DIFF_CONTEXT = 3;
+
+interface DiffLine {
+  op: " " | "-" | "+";
+  text: string;
+}
+
+/**
+ * Diff two lists of lines through their longest common subsequence
+ */
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  // lengths[i][j]: LCS length of before[i..] and after[j..]
+  const lengths = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      const row = lengths[i] ?? [];
+      row[j] =
+        before[i] === after[j]
+          ? (lengths[i + 1]?.[j + 1] ?? 0) + 1
+          : Math.max(lengths[i + 1]?.[j] ?? 0, row[j + 1] ?? 0);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push({ op: " ", text: before[i] ?? "" });
+      i++;
+      j++;
+    } else if (
+      i < before.length &&
+      (j === after.length || (lengths[i + 1]?.[j] ?? 0) >= (lengths[i]?.[j + 1] ?? 0))
+    ) {
+      // Removals come before additions, as in diff -u
+      lines.push({ op: "-", text: before[i] ?? "" });
+      i++;
+    } else {
+      lines.push({ op: "+", text: after[j] ?? "" });
+      j++;
+    }
+  }
+  return lines;
+}
+
+function hunkRange(start: number, count: number): string {
+  if (count === 1) {
+    return String(start);
+  }
+  // An empty range names the line before it
+  return `${String(count === 0 ? start - 1 : start)},${String(count)}`;
+}
+
+/**
+ * Create a unified diff between two versions of a file
+ *
+ * @returns The diff, or an empty string if the contents are equal
+ */
+export function createUnifiedDiff(
+  before: string,
+  after: string,
+  fromFile: string,
+  toFile: string = fromFile
+): string {
+  if (before === after) {
+    return "";
+  }
+  const split = (text: string): string[] =>
+    text === "" ? [] : text.replace(/\n$/, "").split("\n");
+  const lines = diffLines(split(before), split(after));
+
+  const output = [`--- ${fromFile}`, `+++ ${toFile}`];
+  let index = 0;
+  while (index < lines.length) {
+    const firstChange = lines.findIndex((line, i) => i >= index && line.op !== " ");
+    if (firstChange === -1) {
+      break;
+    }
+
+    // Extend the hunk while changes are within two contexts of each other
+    const start = Math.max(index, firstChange - DIFF_CONTEXT);
+    let end = firstChange;
+    let unchanged = 0;
+    for (let i = firstChange; i < lines.length; i++) {
+      if (lines[i]?.op === " ") {
+        unchanged++;
+        if (unchanged > DIFF_CONTEXT * 2) {
+          break;
+        }
+      } else {
+        unchanged = 0;
+        end = i;
+      }
+    }
+    end = Math.min(lines.length, end + DIFF_CONTEXT + 1);
+
+    let oldStart = 1;
+    let newStart = 1;
+    for (const line of lines.slice(0, start)) {
+      if (line.op !== "+") oldStart++;
+      if (line.op !== "-") newStart++;
+    }
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter((line) => line.op !== "+").length;
+    const newCount = hunk.filter((line) => line.op !== "-").length;
+
+    output.push(
+      `@@ -${hunkRange(oldStart, oldCount)} +${hunkRange(newStart, newCount)} @@`,
+      ...hunk.map((line) => line.op + line.text)
+    );
+    index = end;
+  }
+  return output.join("\n") + "\n";
+}
+
+/**
+ * Rewrite a config file into the marker object format
+ *
+ * Moves the deprecated `icons`, `colors` and `priorities` maps into the
+ * objects of the `markers` list, keeping comments and formatting. When a map
+ * entry disagrees with its marker object, both are left as they are and the
+ * conflict is reported rather than picking one. Before writing, the original
+ * file is copied to a backup.
+ *
+ * @param configPath - Path to the config file (defaults to the pj config path)
+ * @param options - Set `dryRun` to only compute the diff
+ * @throws PjConfigError if the config can't be read, parsed or written
+ *
+ * @example
+ * ```typescript
+ * const preview = await migrateConfig(undefined, { dryRun: true });
+ * process.stdout.write(preview.diff);
+ *
+ * const { backupPath, conflicts } = await migrateConfig();
+ * ```
+ */
+export async function migrateConfig(
+  configPath?: string,
+  options?: MigrateConfigOptions
+): Promise<ConfigMigrationResult> {
+  const filePath = configPath ?? getPjConfigPath();
+
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf-8");
+  } catch (error) {
+    throw new PjConfigError(
+      `Failed to read config from ${filePath}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  const editor = new ConfigEditor(content, filePath);
+  const { migrated, conflicts, unlisted } = editor.migrateLegacyMaps();
+  // Without moves, leave the file exactly as it is
+  const migratedContent = migrated.length > 0 ? editor.toString() : content;
+  const changed = migratedContent !== content;
+  const diff = createUnifiedDiff(content, migratedContent, filePath);
+
+  let backupPath: string | undefined;
+  if (changed && !options?.dryRun) {
+    backupPath = options?.backupPath ?? `${filePath}.bak`;
+    try {
+      await fs.copyFile(filePath, backupPath);
+    } catch (error) {
+      throw new PjConfigError(
+        `Failed to back up config to ${backupPath}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+    await editor.save();
+  }
+
+  return { filePath, changed, diff, backupPath, migrated, conflicts, unlisted };
+}
@@ -0,0 +1,370 @@
+import * as fs from "node:fs/promises";
+import * as yaml from "yaml";
+
+import type { ConfigDiagnostic, ConfigValidationOptions } from "./types.js";
+import { PjConfigError } from "./types.js";
+import { getPjConfigPath } from "../binary/constants.js";
+
+/**
+ * Expected shape of a config value
+ */
+type Schema =
+  | { type: "string" | "boolean" }
+  | { type: "number"; integer?: boolean; min?: number }
+  | { type: "list"; items: Schema }
+  | { type: "mapping"; properties: Record<string, Schema>; required?: string[] }
+  | { type: "record"; values: Schema }
+  | { type: "stringOr"; mapping: Schema & { type: "mapping" } };
+
+const STRING: Schema = { type: "string" };
+const BOOLEAN: Schema = { type: "boolean" };
+const STRINGS: Schema = { type: "list", items: STRING };
+const DEPTH: Schema = { type: "number", integer: true, min: 0 };
+
+/** Settings of the raw (snake_case) config file, which profiles can override */
+const SETTINGS: Record<string, Schema> = {
+  paths: {
+    type: "list",
+    items: {
+      type: "stringOr",
+      mapping: {
+        type: "mapping",
+        properties: {
+          path: STRING,
+          max_depth: DEPTH,
+          markers: STRINGS,
+          exclude: STRINGS,
+          no_nested: BOOLEAN,
+          tags: STRINGS,
+        },
+        required: ["path"],
+      },
+    },
+  },
+  markers: {
+    type: "list",
+    items: {
+      type: "stringOr",
+      mapping: {
+        type: "mapping",
+        properties: {
+          marker: STRING,
+          icon: STRING,
+          color: STRING,
+          priority: { type: "number" },
+        },
+        required: ["marker"],
+      },
+    },
+  },
+  exclude: STRINGS,
+  max_depth: DEPTH,
+  cache_ttl: { type: "number", min: 0 },
+  no_ignore: BOOLEAN,
+  no_nested: BOOLEAN,
+  icons: { type: "record", values: STRING },
+  colors: { type: "record", values: STRING },
+  priorities: { type: "record", values: { type: "number" } },
+  projects: {
+    type: "record",
+    values: {
+      type: "mapping",
+      properties: { name: STRING, aliases: STRINGS, tags: STRINGS },
+    },
+  },
+};
+
+/** Schema of the raw (snake_case) config file */
+const CONFIG_SCHEMA: Schema & { type: "mapping" } = {
+  type: "mapping",
+  properties: {
+    ...SETTINGS,
+    profiles: { type: "record", values: { type: "mapping", properties: SETTINGS } },
+  },
+};
+
+function describeSchema(schema: Schema): string {
+  switch (schema.type) {
+    case "string":
+      return "a string";
+    case "boolean":
+      return "true or false";
+    case "number":
+      if (schema.integer) {
+        return schema.min === 0 ? "a non-negative integer" : "an integer";
+      }
+      return schema.min === 0 ? "a non-negative number" : "a number";
+    case "list":
+      switch (schema.items.type) {
+        case "string":
+          return "a list of strings";
+        case "stringOr":
+          return "a list of strings or mappings";
+        default:
+          return "a list";
+      }
+    case "mapping":
+    case "record":
+      return "a mapping";
+    case "stringOr":
+      return "a string or a mapping";
+  }
+}
+
+/**
+ * Edit distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a.charAt(i - 1) === b.charAt(j - 1) ? 0 : 1;
+      current.push(
+        Math.min(
+          (previous[j] ?? 0) + 1,
+          (current[j - 1] ?? 0) + 1,
+          (previous[j - 1] ?? 0) + cost
+        )
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length] ?? 0;
+}
+
+/**
+ * Find the known key closest to an unknown one, if any is close enough
+ */
+function suggestKey(key: string, known: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(key.length / 3)) + 1;
+  for (const candidate of known) {
+    const distance = editDistance(key.toLowerCase(), candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Walks a parsed config document and collects diagnostics
+ */
+class Validator {
+  readonly diagnostics: ConfigDiagnostic[] = [];
+
+  constructor(
+    private readonly lineCounter: yaml.LineCounter,
+    private readonly strict: boolean
+  ) {}
+
+  report(
+    node: yaml.Node | null | undefined,
+    path: (string | number)[],
+    severity: ConfigDiagnostic["severity"],
+    message: string,
+    suggestion?: string
+  ): void {
+    const { line, col } = this.lineCounter.linePos(node?.range?.[0] ?? 0);
+    this.diagnostics.push({ path, line, column: col, severity, message, suggestion });
+  }
+
+  /** Report a value that doesn't have the expected type */
+  private mismatch(node: yaml.Node, schema: Schema, path: (string | number)[]): void {
+    const message = `${describePath(path)} must be ${describeSchema(schema)}`;
+    this.report(node, path, "error", message);
+  }
+
+  validate(node: unknown, schema: Schema, path: (string | number)[]): void {
+    if (!yaml.isNode(node)) {
+      return;
+    }
+
+    switch (schema.type) {
+      case "string":
+      case "boolean":
+      case "number": {
+        const value = yaml.isScalar(node) ? node.value : undefined;
+        if (!this.scalarMatches(value, schema)) {
+          this.mismatch(node, schema, path);
+        }
+        return;
+      }
+      case "list":
+        if (!yaml.isSeq(node)) {
+          this.mismatch(node, schema, path);
+          return;
+        }
+        node.items.forEach((item, i) => {
+          this.validate(item, schema.items, [...path, i]);
+        });
+        return;
+      case "stringOr":
+        if (yaml.isScalar(node) && typeof node.value === "string") {
+          return;
+        }
+        if (!yaml.isMap(node)) {
+          this.mismatch(node, schema, path);
+          return;
+        }
+        this.validate(node, schema.mapping, path);
+        return;
+      case "record":
+      case "mapping":
+        if (!yaml.isMap(node)) {
+          this.mismatch(node, schema, path);
+          return;
+        }
+        if (schema.type === "record") {
+          for (const pair of node.items) {
+            const key = String(keyOf(pair));
+            this.validate(pair.value, schema.values, [...path, key]);
+          }
+        } else {
+          this.validateMapping(node, schema, path);
+        }
+        return;
+    }
+  }
+
+  private validateMapping(
+    node: yaml.YAMLMap,
+    schema: Schema & { type: "mapping" },
+    path: (string | number)[]
+  ): void {
+    const known = Object.keys(schema.properties);
+    const present = new Set<string>();
+
+    for (const pair of node.items) {
+      const key = String(keyOf(pair));
+      const keyNode = yaml.isNode(pair.key) ? pair.key : undefined;
+      present.add(key);
+
+      const property = schema.properties[key];
+      if (property) {
+        this.validate(pair.value, property, [...path, key]);
+        continue;
+      }
+
+      const suggestion = suggestKey(key, known);
+      this.report(
+        keyNode,
+        [...path, key],
+        this.strict ? "error" : "warning",
+        suggestion
+          ? `Unknown key "${key}", did you mean "${suggestion}"?`
+          : `Unknown key "${key}"`,
+        suggestion
+      );
+    }
+
+    for (const key of schema.required ?? []) {
+      if (!present.has(key)) {
+        this.report(node, path, "error", `${describePath(path)} is missing "${key}"`);
+      }
+    }
+  }
+
+  private scalarMatches(value: unknown, schema: Schema): boolean {
+    switch (schema.type) {
+      case "string":
+        return typeof value === "string";
+      case "boolean":
+        return typeof value === "boolean";
+      case "number":
+        return (
+          typeof value === "number" &&
+          Number.isFinite(value) &&
+          (!schema.integer || Number.isInteger(value)) &&
+          (schema.min === undefined || value >= schema.min)
+        );
+      default:
+        return false;
+    }
+  }
+}
+
+function describePath(path: (string | number)[]): string {
+  return path.length > 0 ? path.join(".") : "config";
+}
+
+function keyOf(pair: yaml.Pair): unknown {
+  return yaml.isScalar(pair.key) ? pair.key.value : pair.key;
+}
+
+/**
+ * Validate the contents of a pj config file
+ *
+ * Reports YAML syntax errors, values of the wrong type (such as a string
+ * where a list belongs, or a negative `cache_ttl`) and unknown keys, with the
+ * line and column of the offending node. Unknown keys are warnings, with a
+ * suggestion when they look like a typo of a known key; in strict mode they
+ * are errors.
+ *
+ * @param content - YAML content of the config file
+ * @param options - Validation options
+ * @returns Diagnostics in document order; empty if the config is valid
+ */
+export function validateConfigContent(
+  content: string,
+  options?: ConfigValidationOptions
+): ConfigDiagnostic[] {
+  const lineCounter = new yaml.LineCounter();
+  const doc = yaml.parseDocument(content, { lineCounter, prettyErrors: false });
+
+  const syntaxErrors: ConfigDiagnostic[] = doc.errors.map((error) => {
+    const { line, col } = lineCounter.linePos(error.pos[0]);
+    return { path: [], line, column: col, severity: "error", message: error.message };
+  });
+  if (syntaxErrors.length > 0) {
+    return syntaxErrors;
+  }
+
+  const validator = new Validator(lineCounter, options?.strict ?? false);
+  validator.validate(doc.contents, CONFIG_SCHEMA, []);
+  return validator.diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Validate a pj config file
+ *
+ * @param configPath - Path to the config file (defaults to the pj config path)
+ * @param options - Validation options
+ * @returns Diagnostics in document order; empty if the config is valid or
+ *   doesn't exist
+ * @throws PjConfigError if the file exists but can't be read
+ */
+export async function validateConfig(
+  configPath?: string,
+  options?: ConfigValidationOptions
+): Promise<ConfigDiagnostic[]> {
+  const filePath = configPath ?? getPjConfigPath();
+
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf-8");
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      return [];
+    }
+    throw new PjConfigError(
+      `Failed to read config from ${filePath}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  return validateConfigContent(content, options);
+}
+
+/**
+ * Format a diagnostic as `file:line:column: severity: message`
+ */
+export function formatConfigDiagnostic(
+  diagnostic: ConfigDiagnostic,
+  filePath = "config.yaml"
+): string {
+  const { line, column, severity, message } = diagnostic;
+  return `${filePath}:${String(line)}:${String(column)}: ${severity}: ${message}`;
+}
@@ -0,0 +1,105 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+/** Default debounce delay in milliseconds */
+const DEFAULT_DEBOUNCE_MS = 100;
+
+/**
+ * Watches config files and reports when any of them changes
+ *
+ * The directory of each file is watched rather than the file itself, so
+ * files that editors replace on save, and files created after watching
+ * started, are noticed too. Changes are debounced, and the watchers don't
+ * keep the process alive.
+ */
+export class ConfigWatcher {
+  /** Files being watched */
+  readonly files: readonly string[];
+
+  private readonly watchers: fs.FSWatcher[] = [];
+  private timer: NodeJS.Timeout | undefined;
+  private closed = false;
+
+  /**
+   * Start watching
+   *
+   * Files whose directory doesn't exist are skipped.
+   *
+   * @param files - Config files to watch
+   * @param onChange - Called once changes have settled
+   * @param onError - Called when a directory can't be watched
+   * @param debounceMs - Milliseconds to wait for changes to settle
+   */
+  constructor(
+    files: string[],
+    private readonly onChange: () => void,
+    private readonly onError: (error: unknown) => void,
+    private readonly debounceMs: number = DEFAULT_DEBOUNCE_MS
+  ) {
+    this.files = [...new Set(files)];
+
+    const byDir = new Map<string, Set<string>>();
+    for (const file of this.files) {
+      const dir = path.dirname(file);
+      const names = byDir.get(dir) ?? new Set();
+      names.add(path.basename(file));
+      byDir.set(dir, names);
+    }
+
+    for (const [dir, names] of byDir) {
+      let watcher: fs.FSWatcher;
+      try {
+        watcher = fs.watch(dir, { persistent: false }, (_event, filename) => {
+          // Some platforms don't report the file name
+          if (filename === null || names.has(filename)) {
+            this.schedule();
+          }
+        });
+      } catch (error) {
+        if (!(error instanceof Error && "code" in error && error.code === "ENOENT")) {
+          this.onError(error);
+        }
+        continue;
+      }
+      watcher.on("error", (error) => {
+        this.onError(error);
+      });
+      this.watchers.push(watcher);
+    }
+  }
+
+  /**
+   * Whether the watcher has been closed
+   */
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Stop watching
+   */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    clearTimeout(this.timer);
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers.length = 0;
+  }
+
+  private schedule(): void {
+    if (this.closed) {
+      return;
+    }
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      if (!this.closed) {
+        this.onChange();
+      }
+    }, this.debounceMs);
+    this.timer.unref();
+  }
+}
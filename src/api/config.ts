@@ -3,9 +3,17 @@ import * as path from "node:path";
 import * as os from "node:os";
 import * as yaml from "yaml";
 
-import type { PjConfig } from "./types.js";
-import { PjConfigError } from "./types.js";
+import type {
+  LoadConfigOptions,
+  PjConfig,
+  PjProfile,
+  ProjectSettings,
+  SearchPath,
+} from "./types.js";
+import { PjConfigError, PjConfigValidationError } from "./types.js";
+import { formatConfigDiagnostic, validateConfigContent } from "./config-validation.js";
 import { getPjConfigPath } from "../binary/constants.js";
+import { expandDirectoryGlob, hasGlobMagic } from "../native/glob.js";
 
 /**
  * Default configuration values
@@ -85,32 +93,82 @@ export const DEFAULT_CONFIG: PjConfig = {
     ".zed": 5,
     Dockerfile: 7,
   },
+  projects: {},
+  profiles: {},
 };
 
 /**
  * Load pj configuration from file
+ *
+ * Reads a single file on top of the defaults; see `resolveConfig` for the
+ * layered configuration.
+ *
+ * @param configPath - Path to the config file (defaults to the pj config path)
+ * @param options - Set `strict` to validate the config first
+ * @throws PjConfigValidationError in strict mode if the config is invalid
+ * @throws PjConfigError if the config can't be read or parsed
  */
-export async function loadConfig(configPath?: string): Promise<PjConfig> {
-  const filePath = configPath ?? getPjConfigPath();
+export async function loadConfig(
+  configPath?: string,
+  options?: LoadConfigOptions
+): Promise<PjConfig> {
+  const layer = await readConfigFile(configPath ?? getPjConfigPath(), options);
+  // Config file doesn't exist, return defaults
+  return layer ? mergeConfig(DEFAULT_CONFIG, layer) : { ...DEFAULT_CONFIG };
+}
 
+/**
+ * Read the values set in a config file, without filling in defaults
+ *
+ * @param filePath - Path to the config file
+ * @param options - Set `strict` to validate the config first
+ * @returns The values set in the file, or undefined if it doesn't exist
+ * @throws PjConfigValidationError in strict mode if the config is invalid
+ * @throws PjConfigError if the config can't be read or parsed
+ */
+export async function readConfigFile(
+  filePath: string,
+  options?: LoadConfigOptions
+): Promise<Partial<PjConfig> | undefined> {
+  let content: string;
   try {
-    const content = await fs.readFile(filePath, "utf-8");
-    const parsed = yaml.parse(content) as Partial<RawConfig>;
-    return mergeConfig(parsed);
+    content = await fs.readFile(filePath, "utf-8");
   } catch (error) {
     if (
       error instanceof Error &&
       "code" in error &&
       error.code === "ENOENT"
     ) {
-      // Config file doesn't exist, return defaults
-      return { ...DEFAULT_CONFIG };
+      return undefined;
     }
     throw new PjConfigError(
       `Failed to load config from ${filePath}`,
       error instanceof Error ? error : undefined
     );
   }
+
+  if (options?.strict) {
+    const errors = validateConfigContent(content, { strict: true }).filter(
+      (d) => d.severity === "error"
+    );
+    if (errors.length > 0) {
+      const details = errors.map((d) => formatConfigDiagnostic(d, filePath));
+      throw new PjConfigValidationError(
+        `Invalid config in ${filePath}:\n${details.join("\n")}`,
+        errors
+      );
+    }
+  }
+
+  try {
+    const parsed = (yaml.parse(content) ?? {}) as Partial<RawConfig>;
+    return parseConfig(parsed);
+  } catch (error) {
+    throw new PjConfigError(
+      `Failed to load config from ${filePath}`,
+      error instanceof Error ? error : undefined
+    );
+  }
 }
 
 /**
@@ -122,10 +180,27 @@ export async function saveConfig(
 ): Promise<void> {
   const filePath = configPath ?? getPjConfigPath();
 
-  // Convert to raw format, only including defined properties
-  const rawConfig: RawConfig = {};
+  const rawConfig: RawConfig = toRawConfig(config);
+  if (config.profiles !== undefined && Object.keys(config.profiles).length > 0) {
+    rawConfig.profiles = Object.fromEntries(
+      Object.entries(config.profiles).map(([name, p]) => [name, toRawConfig(p)])
+    );
+  }
 
-  if (config.paths !== undefined) rawConfig.paths = config.paths;
+  const content = yaml.stringify(rawConfig, { indent: 2 });
+
+  // Ensure directory exists
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content, "utf-8");
+}
+
+/**
+ * Convert config values to the raw format, only including defined properties
+ */
+export function toRawConfig(config: PjProfile): RawProfile {
+  const rawConfig: RawProfile = {};
+
+  if (config.paths !== undefined) rawConfig.paths = config.paths.map(toRawSearchPath);
   if (config.markers !== undefined) rawConfig.markers = config.markers;
   if (config.exclude !== undefined) rawConfig.exclude = config.exclude;
   if (config.maxDepth !== undefined) rawConfig.max_depth = config.maxDepth;
@@ -138,12 +213,11 @@ export async function saveConfig(
   if (config.colors !== undefined) rawConfig.colors = config.colors;
   // eslint-disable-next-line @typescript-eslint/no-deprecated -- support legacy format
   if (config.priorities !== undefined) rawConfig.priorities = config.priorities;
+  if (config.projects !== undefined && Object.keys(config.projects).length > 0) {
+    rawConfig.projects = config.projects;
+  }
 
-  const content = yaml.stringify(rawConfig, { indent: 2 });
-
-  // Ensure directory exists
-  await fs.mkdir(path.dirname(filePath), { recursive: true });
-  await fs.writeFile(filePath, content, "utf-8");
+  return rawConfig;
 }
 
 /**
@@ -178,11 +252,32 @@ type RawMarker =
       priority?: number;
     };
 
+/**
+ * Raw search path - a directory, or an object with a path and its own settings
+ */
+type RawSearchPath =
+  | string
+  | {
+      path: string;
+      max_depth?: number;
+      markers?: string[];
+      exclude?: string[];
+      no_nested?: boolean;
+      tags?: string[];
+    };
+
 /**
  * Raw config format as stored in YAML (snake_case)
  */
-interface RawConfig {
-  paths?: string[];
+interface RawConfig extends RawProfile {
+  profiles?: Record<string, RawProfile>;
+}
+
+/**
+ * Raw settings of a config or of one of its profiles
+ */
+interface RawProfile {
+  paths?: RawSearchPath[];
   markers?: RawMarker[];
   exclude?: string[];
   max_depth?: number;
@@ -195,6 +290,7 @@ interface RawConfig {
   colors?: Record<string, string>;
   /** @deprecated Use the new markers format with priority field instead */
   priorities?: Record<string, number>;
+  projects?: Record<string, ProjectSettings>;
 }
 
 /**
@@ -232,80 +328,280 @@ function parseRawMarkers(rawMarkers: RawMarker[]): {
 }
 
 /**
- * Merge raw config with defaults
+ * Convert a raw search path to its config form
+ */
+function parseRawSearchPath(raw: RawSearchPath): SearchPath {
+  if (typeof raw === "string") {
+    return raw;
+  }
+  const entry: SearchPath = { path: raw.path };
+  if (raw.max_depth !== undefined) entry.maxDepth = raw.max_depth;
+  if (raw.markers !== undefined) entry.markers = raw.markers;
+  if (raw.exclude !== undefined) entry.exclude = raw.exclude;
+  if (raw.no_nested !== undefined) entry.noNested = raw.no_nested;
+  if (raw.tags !== undefined) entry.tags = raw.tags;
+  return entry;
+}
+
+/**
+ * Convert a search path to its raw form, writing plain paths as strings
+ */
+function toRawSearchPath(entry: SearchPath): RawSearchPath {
+  if (typeof entry === "string") {
+    return entry;
+  }
+  const raw: RawSearchPath = { path: entry.path };
+  if (entry.maxDepth !== undefined) raw.max_depth = entry.maxDepth;
+  if (entry.markers !== undefined) raw.markers = entry.markers;
+  if (entry.exclude !== undefined) raw.exclude = entry.exclude;
+  if (entry.noNested !== undefined) raw.no_nested = entry.noNested;
+  if (entry.tags !== undefined) raw.tags = entry.tags;
+  return Object.keys(raw).length === 1 ? entry.path : raw;
+}
+
+/**
+ * Convert a raw config to the values it sets
+ */
+function parseConfig(raw: Partial<RawConfig>): Partial<PjConfig> {
+  const config: Partial<PjConfig> = parseProfile(raw);
+  if (raw.profiles !== undefined) {
+    config.profiles = Object.fromEntries(
+      Object.entries(raw.profiles).map(([name, profile]) => [name, parseProfile(profile)])
+    );
+  }
+  return config;
+}
+
+/**
+ * Convert the raw settings of a config or profile to the values they set
  */
-function mergeConfig(raw: Partial<RawConfig>): PjConfig {
-  // Parse markers from raw config if provided
-  let markers = DEFAULT_CONFIG.markers;
-  let parsedIcons: Record<string, string> = {};
-  let parsedColors: Record<string, string> = {};
-  let parsedPriorities: Record<string, number> = {};
+function parseProfile(raw: RawProfile): PjProfile {
+  const config: PjProfile = {};
+  if (raw.paths !== undefined) config.paths = raw.paths.map(parseRawSearchPath);
+  if (raw.exclude !== undefined) config.exclude = raw.exclude;
+  if (raw.max_depth !== undefined) config.maxDepth = raw.max_depth;
+  if (raw.cache_ttl !== undefined) config.cacheTTL = raw.cache_ttl;
+  if (raw.no_ignore !== undefined) config.noIgnore = raw.no_ignore;
+  if (raw.no_nested !== undefined) config.noNested = raw.no_nested;
+  if (raw.projects !== undefined) config.projects = raw.projects;
+
+  // Marker metadata: deprecated maps <- new format fields
+  // eslint-disable-next-line @typescript-eslint/no-deprecated -- support legacy format
+  let icons = raw.icons;
+  // eslint-disable-next-line @typescript-eslint/no-deprecated -- support legacy format
+  let colors = raw.colors;
+  // eslint-disable-next-line @typescript-eslint/no-deprecated -- support legacy format
+  let priorities = raw.priorities;
 
   if (raw.markers !== undefined) {
     const parsed = parseRawMarkers(raw.markers);
-    markers = parsed.markers;
-    parsedIcons = parsed.icons;
-    parsedColors = parsed.colors;
-    parsedPriorities = parsed.priorities;
+    config.markers = parsed.markers;
+    icons = nonEmpty({ ...icons, ...parsed.icons });
+    colors = nonEmpty({ ...colors, ...parsed.colors });
+    priorities = nonEmpty({ ...priorities, ...parsed.priorities });
   }
 
-  // Merge icons: defaults <- deprecated icons field <- new format icons
-  const icons = {
-    ...DEFAULT_CONFIG.icons,
-    // eslint-disable-next-line @typescript-eslint/no-deprecated -- support legacy format
-    ...(raw.icons ?? {}),
-    ...parsedIcons,
-  };
-
-  // Merge colors: defaults <- deprecated colors field <- new format colors
-  const colors = {
-    ...DEFAULT_CONFIG.colors,
-    // eslint-disable-next-line @typescript-eslint/no-deprecated -- support legacy format
-    ...(raw.colors ?? {}),
-    ...parsedColors,
-  };
+  if (icons !== undefined) config.icons = icons;
+  if (colors !== undefined) config.colors = colors;
+  if (priorities !== undefined) config.priorities = priorities;
+  return config;
+}
 
-  // Merge priorities: defaults <- deprecated priorities field <- new format priorities
-  const priorities = {
-    ...DEFAULT_CONFIG.priorities,
-    // eslint-disable-next-line @typescript-eslint/no-deprecated -- support legacy format
-    ...(raw.priorities ?? {}),
-    ...parsedPriorities,
-  };
+function nonEmpty<T>(map: Record<string, T>): Record<string, T> | undefined {
+  return Object.keys(map).length > 0 ? map : undefined;
+}
 
+/**
+ * Apply a config layer on top of a complete config
+ *
+ * Values set in the layer replace the base ones, except for the `icons`,
+ * `colors`, `priorities` and `projects` maps, which are merged by key.
+ */
+export function mergeConfig(base: PjConfig, layer: Partial<PjConfig>): PjConfig {
   return {
-    paths: raw.paths ?? DEFAULT_CONFIG.paths,
-    markers,
-    exclude: raw.exclude ?? DEFAULT_CONFIG.exclude,
-    maxDepth: raw.max_depth ?? DEFAULT_CONFIG.maxDepth,
-    cacheTTL: raw.cache_ttl ?? DEFAULT_CONFIG.cacheTTL,
-    noIgnore: raw.no_ignore ?? DEFAULT_CONFIG.noIgnore,
-    noNested: raw.no_nested ?? DEFAULT_CONFIG.noNested,
-    icons,
-    colors,
-    priorities,
+    ...base,
+    ...layer,
+    icons: { ...base.icons, ...layer.icons },
+    colors: { ...base.colors, ...layer.colors },
+    priorities: { ...base.priorities, ...layer.priorities },
+    projects: { ...base.projects, ...layer.projects },
+    profiles: { ...base.profiles, ...layer.profiles },
   };
 }
 
 /**
- * Expand ~ in paths to home directory
+ * Apply the settings of a profile, or another partial config, on top of
+ * another, merging maps by key
  */
-export function expandPath(p: string): string {
-  if (p.startsWith("~/")) {
-    return path.join(os.homedir(), p.slice(2));
+export function mergeProfile<T extends PjProfile>(base: T, profile: T): T {
+  const merged: T = { ...base, ...profile };
+  if (base.icons && profile.icons) {
+    merged.icons = { ...base.icons, ...profile.icons };
+  }
+  if (base.colors && profile.colors) {
+    merged.colors = { ...base.colors, ...profile.colors };
+  }
+  if (base.priorities && profile.priorities) {
+    merged.priorities = { ...base.priorities, ...profile.priorities };
   }
-  if (p === "~") {
+  if (base.projects && profile.projects) {
+    merged.projects = { ...base.projects, ...profile.projects };
+  }
+  return merged;
+}
+
+/** `$VAR`, `${VAR}` and `${VAR:-default}` references */
+const ENV_REFERENCE = /\$(?:\{([A-Za-z_]\w*)(?::-([^}]*))?\}|([A-Za-z_]\w*))/g;
+
+/**
+ * Replace `$VAR`, `${VAR}` and `${VAR:-default}` with environment variables
+ *
+ * As in the shell, unset variables become empty, and the default is used
+ * when the variable is unset or empty.
+ *
+ * @param value - String to interpolate
+ * @param env - Environment to read (defaults to process.env)
+ */
+export function interpolateEnv(
+  value: string,
+  env: Record<string, string | undefined> = process.env
+): string {
+  return value.replace(
+    ENV_REFERENCE,
+    (_match, braced?: string, fallback?: string, bare?: string) => {
+      const current = env[braced ?? bare ?? ""];
+      if (fallback !== undefined && (current === undefined || current === "")) {
+        return fallback;
+      }
+      return current ?? "";
+    }
+  );
+}
+
+/**
+ * Expand environment variables and a leading ~ in a path
+ *
+ * @param p - Path to expand
+ * @param env - Environment to read variables from (defaults to process.env)
+ */
+export function expandPath(
+  p: string,
+  env: Record<string, string | undefined> = process.env
+): string {
+  const interpolated = interpolateEnv(p, env);
+  if (interpolated.startsWith("~/")) {
+    return path.join(os.homedir(), interpolated.slice(2));
+  }
+  if (interpolated === "~") {
     return os.homedir();
   }
-  return p;
+  return interpolated;
+}
+
+/**
+ * Expand environment variables, ~ and globs in search paths
+ *
+ * Glob patterns such as `~/work/*` or `~/clients/{acme,globex}` are
+ * replaced by the existing directories they match, skipping hidden ones; a
+ * path with its own settings passes them on to every match. Relative
+ * patterns are resolved against the working directory. The `exclude`
+ * patterns of paths with settings get variables and ~ expanded.
+ *
+ * @param paths - Search paths to expand
+ * @param env - Environment to read variables from (defaults to process.env)
+ * @returns The expanded paths, and the glob patterns that matched nothing
+ */
+export async function expandSearchPaths(
+  paths: SearchPath[],
+  env: Record<string, string | undefined> = process.env
+): Promise<{ paths: SearchPath[]; unmatched: string[] }> {
+  const expanded: SearchPath[] = [];
+  const unmatched: string[] = [];
+
+  for (const entry of paths) {
+    const raw = typeof entry === "string" ? entry : entry.path;
+    const withPath = (p: string): SearchPath => {
+      if (typeof entry === "string") {
+        return p;
+      }
+      const result = { ...entry, path: p };
+      if (entry.exclude !== undefined) {
+        result.exclude = entry.exclude.map((e) => expandPath(e, env));
+      }
+      return result;
+    };
+
+    const pattern = expandPath(raw, env);
+    if (!hasGlobMagic(pattern)) {
+      expanded.push(withPath(pattern));
+      continue;
+    }
+    const matches = await expandDirectoryGlob(pattern, process.cwd());
+    if (matches.length === 0) {
+      unmatched.push(raw);
+    }
+    expanded.push(...matches.map(withPath));
+  }
+
+  return { paths: expanded, unmatched };
 }
 
 /**
- * Expand all paths in config
+ * Expand environment variables and ~ in the search paths and `exclude`
+ * patterns of a config
+ *
+ * Globs in search paths are not expanded, since that needs the file system;
+ * use `resolveConfigPaths` to expand them and find the ones matching
+ * nothing.
+ *
+ * @param config - Config to expand
+ * @param env - Environment to read variables from (defaults to process.env)
  */
-export function expandConfigPaths(config: PjConfig): PjConfig {
+export function expandConfigPaths(
+  config: PjConfig,
+  env: Record<string, string | undefined> = process.env
+): PjConfig {
+  const expand = (p: string): string => expandPath(p, env);
   return {
     ...config,
-    paths: config.paths.map(expandPath),
+    paths: config.paths.map((entry) => {
+      if (typeof entry === "string") {
+        return expand(entry);
+      }
+      const expanded = { ...entry, path: expand(entry.path) };
+      if (entry.exclude !== undefined) {
+        expanded.exclude = entry.exclude.map(expand);
+      }
+      return expanded;
+    }),
+    exclude: config.exclude.map(expand),
   };
 }
+
+/**
+ * Expand environment variables, ~ and globs in the paths of a config
+ *
+ * Search paths are expanded as with `expandSearchPaths`. `exclude` patterns
+ * get variables and ~ expanded, but their globs are kept, since they are
+ * matched against directories during discovery.
+ *
+ * @param config - Config to expand
+ * @param env - Environment to read variables from (defaults to process.env)
+ * @returns The expanded config, and the glob patterns that matched nothing
+ *
+ * @example
+ * ```typescript
+ * const { config, unmatched } = await resolveConfigPaths(await loadConfig());
+ * for (const pattern of unmatched) {
+ *   console.warn(`No directories match ${pattern}`);
+ * }
+ * ```
+ */
+export async function resolveConfigPaths(
+  config: PjConfig,
+  env: Record<string, string | undefined> = process.env
+): Promise<{ config: PjConfig; unmatched: string[] }> {
+  const { paths, unmatched } = await expandSearchPaths(config.paths, env);
+  const exclude = config.exclude.map((pattern) => expandPath(pattern, env));
+  return { config: { ...config, paths, exclude }, unmatched };
+}
@@ -1,20 +1,305 @@
-import type { DiscoverOptions, Project } from "./types.js";
+import type {
+  DiscoverOptions,
+  DuplicateGroup,
+  FindProjectsOptions,
+  MarkerGroupOptions,
+  PjConfig,
+  Project,
+  ProjectMatch,
+  ProjectQuery,
+  ProjectTreeRoot,
+} from "./types.js";
+import { PjBinaryError } from "./types.js";
+import { throwIfAborted } from "./abort.js";
 import {
   buildArgs,
   executePj,
   executePjWithStdin,
   parseJsonOutput,
+  streamPj,
 } from "../cli/executor.js";
+import { rankProjects } from "./fuzzy.js";
+import { createProjectFilter, parseProjectQuery, queryNeedsGit } from "./query.js";
+import { getFrecencyStore } from "./frecency.js";
+import { DEFAULT_CONFIG, expandSearchPaths, loadConfig } from "./config.js";
+import { buildProjectTree } from "./tree.js";
+import { groupDuplicates } from "./duplicates.js";
+import {
+  loadFallbackConfig,
+  partitionSearchPaths,
+  resolveSearchPaths,
+  searchPathOf,
+} from "./search-paths.js";
+import { hasTags, resolveSettingsApplier } from "./project-settings.js";
+import { discoverNative, sortProjects, walkProjects } from "../native/walker.js";
+import { getBinaryManager } from "../binary/manager.js";
+import { createEnricher, enrichProjects } from "../enrich/enricher.js";
+import { expandWorkspaceStream, expandWorkspaces } from "../enrich/workspaces.js";
+
+/**
+ * A function that discovers projects, such as `discover` or a cached variant
+ *
+ * The finder functions below accept one as their last argument, which lets
+ * the Pj class serve them from its result cache.
+ */
+export type Discoverer = (options?: DiscoverOptions) => Promise<Project[]>;
 
 /**
  * Discover projects using pj
+ *
+ * @throws PjTimeoutError if pj exceeds `timeoutMs` on its last attempt
+ * @throws PjAbortError if `signal` is aborted
  */
 export async function discover(options?: DiscoverOptions): Promise<Project[]> {
+  throwIfAborted(options?.signal);
+  const config = await loadFallbackConfig(options);
+  return finishDiscovery(await discoverRaw(options, config), options, config);
+}
+
+/**
+ * Discover projects with the binary or native engine, before any of the
+ * steps handled in Node are applied
+ *
+ * Search paths with their own settings are discovered separately (see
+ * `partitionSearchPaths`) and the results combined, then sorted again with
+ * the requested sort.
+ *
+ * @param options - Discovery options
+ * @param config - Config to fall back to (default: `loadFallbackConfig`)
+ */
+export async function discoverRaw(
+  options?: DiscoverOptions,
+  config?: PjConfig
+): Promise<Project[]> {
+  throwIfAborted(options?.signal);
+  const fallback = config ?? (await loadFallbackConfig(options));
+  const partitions = partitionSearchPaths(await resolveSearchPaths(options, fallback));
+  const binaryPath = await resolveEngine(options);
+  if (partitions.length === 1) {
+    return discoverPartition(partitions[0], binaryPath);
+  }
+
+  const results = await Promise.all(
+    partitions.map((partition) => discoverPartition(partition, binaryPath))
+  );
+  // Overlapping search paths can find the same project more than once
+  const byPath = new Map<string, Project>();
+  for (const project of results.flat()) {
+    if (!byPath.has(project.path)) {
+      byPath.set(project.path, project);
+    }
+  }
+  return sortProjects(
+    [...byPath.values()],
+    { ...(fallback ?? DEFAULT_CONFIG).priorities, ...options?.priorities },
+    options?.sort,
+    options?.sortDirection
+  );
+}
+
+/**
+ * Discover projects for options whose paths share the same settings
+ *
+ * @param binaryPath - Binary to run, or undefined to use the native walker
+ */
+async function discoverPartition(
+  options: DiscoverOptions | undefined,
+  binaryPath: string | undefined
+): Promise<Project[]> {
+  // Globs that matched nothing can leave no paths; pj would fall back to the config
+  if (options?.paths?.length === 0) {
+    return [];
+  }
+  if (binaryPath === undefined) {
+    return discoverNative(options);
+  }
   const args = buildArgs(options);
-  const result = await executePj(args);
+  const result = await executePj(args, undefined, { ...options, binaryPath });
   return parseJsonOutput(result.stdout);
 }
 
+/**
+ * Get a key identifying the raw result of a discovery
+ *
+ * Options that only affect the steps handled in Node, or how pj is run, are
+ * not part of the key.
+ */
+export function discoveryKey(options?: DiscoverOptions): string {
+  return JSON.stringify({
+    engine: options?.engine ?? "auto",
+    args: buildArgs({ ...options, noCache: false }),
+    // Per-path settings aren't expressed in the arguments
+    paths: options?.paths,
+    // The native engine reads these rather than passing them as arguments
+    priorities: options?.priorities,
+    configPath: options?.configPath,
+    // Each profile has its own pj cache
+    profile: options?.profile,
+  });
+}
+
+/**
+ * Why the binary couldn't be obtained in "auto" mode, once it has failed
+ *
+ * Later discoveries in the process go straight to the native walker rather
+ * than trying (and possibly downloading) again.
+ */
+let binaryUnavailable: PjBinaryError | undefined;
+
+/**
+ * Decide which engine a discovery runs with, resolving the binary once
+ *
+ * In "auto" mode the native walker is used when the binary can't be obtained,
+ * e.g. on unsupported platforms or when offline without a cached binary, and
+ * stays in use for the rest of the process. A `PJ_BINARY_PATH` that doesn't
+ * point to a valid binary is an error rather than a reason to fall back.
+ *
+ * @returns The binary to run, or undefined to use the native walker
+ * @throws PjBinaryError if the binary is required but can't be obtained
+ */
+async function resolveEngine(options?: DiscoverOptions): Promise<string | undefined> {
+  const engine = options?.engine ?? "auto";
+  if (engine === "native") {
+    return undefined;
+  }
+  const explicitBinary = Boolean(process.env["PJ_BINARY_PATH"]);
+  if (engine === "auto" && binaryUnavailable && !explicitBinary) {
+    return undefined;
+  }
+  try {
+    const binaryPath = await getBinaryManager().getBinaryPath(
+      options?.signal ? { signal: options.signal } : undefined
+    );
+    binaryUnavailable = undefined;
+    return binaryPath;
+  } catch (error) {
+    // Cancelling a binary download cancels discovery, not just the binary
+    throwIfAborted(options?.signal);
+    if (engine === "auto" && error instanceof PjBinaryError && !explicitBinary) {
+      binaryUnavailable = error;
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Apply the steps handled in Node rather than by the binary: workspace
+ * expansion, project settings and search path tags from the config, tag
+ * filtering, frecency sorting and enrichment
+ *
+ * @param projects - Projects found by `discoverRaw`
+ * @param options - Discovery options
+ * @param config - Config to fall back to (default: `loadFallbackConfig`)
+ */
+export async function finishDiscovery(
+  projects: Project[],
+  options?: DiscoverOptions,
+  config?: PjConfig
+): Promise<Project[]> {
+  let result = projects;
+  if (options?.workspaces) {
+    result = await expandWorkspaces(result, options);
+  }
+  result = result.map(await resolveSettingsApplier(options, config));
+  const tags = options?.tags;
+  if (tags?.length) {
+    result = result.filter((p) => hasTags(p, tags));
+  }
+  if (options?.sort === "frecency") {
+    result = await getFrecencyStore().rank(result, options.sortDirection);
+  }
+  if (options?.enrich) {
+    result = await enrichProjects(result, options.enrich, options);
+  }
+  return result;
+}
+
+/**
+ * Apply project settings and the tag filter to streamed projects
+ */
+async function* settingsStream(
+  projects: AsyncIterable<Project>,
+  options: DiscoverOptions | undefined,
+  config: PjConfig | undefined
+): AsyncIterable<Project> {
+  const apply = await resolveSettingsApplier(options, config);
+  const tags = options?.tags ?? [];
+  for await (const project of projects) {
+    const withSettings = apply(project);
+    if (hasTags(withSettings, tags)) {
+      yield withSettings;
+    }
+  }
+}
+
+/**
+ * Enrich streamed projects one at a time as they arrive
+ */
+async function* enrichStream(
+  projects: AsyncIterable<Project>,
+  options?: DiscoverOptions
+): AsyncIterable<Project> {
+  if (!options?.enrich?.length) {
+    yield* projects;
+    return;
+  }
+
+  const enrich = await createEnricher(options.enrich, options);
+  for await (const project of projects) {
+    yield await enrich(project);
+  }
+}
+
+/**
+ * Stream the projects of each partition in turn
+ */
+async function* streamPartitions(
+  partitions: DiscoverOptions[],
+  binaryPath: string | undefined
+): AsyncIterable<Project> {
+  const seen = new Set<string>();
+  for (const options of partitions) {
+    if (options.paths?.length === 0) {
+      continue;
+    }
+    const projects =
+      binaryPath === undefined
+        ? walkProjects(options)
+        : streamPj(buildArgs(options), undefined, { ...options, binaryPath });
+    for await (const project of projects) {
+      if (!seen.has(project.path)) {
+        seen.add(project.path);
+        yield project;
+      }
+    }
+  }
+}
+
+/**
+ * Discover projects using pj, yielding each project as soon as it is found
+ *
+ * Breaking out of the iteration early, or aborting `signal`, kills the
+ * underlying pj process.
+ * Projects are yielded in the order pj reports them, so `sort: "frecency"`
+ * is not applied.
+ */
+export async function* discoverStream(
+  options?: DiscoverOptions
+): AsyncIterable<Project> {
+  throwIfAborted(options?.signal);
+  const config = await loadFallbackConfig(options);
+  const projects = streamPartitions(
+    partitionSearchPaths(await resolveSearchPaths(options, config)),
+    await resolveEngine(options)
+  );
+
+  const expanded = options?.workspaces
+    ? expandWorkspaceStream(projects, options)
+    : projects;
+  yield* enrichStream(settingsStream(expanded, options, config), options);
+}
+
 /**
  * Discover projects from specific paths provided via stdin
  *
@@ -26,8 +311,14 @@ export async function discoverFromPaths(
   paths: string[],
   options?: Omit<DiscoverOptions, "paths">
 ): Promise<Project[]> {
+  throwIfAborted(options?.signal);
   // Build args without --path flags since we're using stdin
   // We explicitly omit paths by building options without it
+  const binaryPath = await resolveEngine(options);
+  if (binaryPath === undefined) {
+    return finishDiscovery(await discoverNative({ ...options, paths }), options);
+  }
+
   const optsWithoutPaths: DiscoverOptions = {};
   if (options?.markers !== undefined) optsWithoutPaths.markers = options.markers;
   if (options?.excludes !== undefined) optsWithoutPaths.excludes = options.excludes;
@@ -37,6 +328,8 @@ export async function discoverFromPaths(
   if (options?.noCache !== undefined) optsWithoutPaths.noCache = options.noCache;
   if (options?.icons !== undefined) optsWithoutPaths.icons = options.icons;
   if (options?.shorten !== undefined) optsWithoutPaths.shorten = options.shorten;
+  if (options?.sort !== undefined) optsWithoutPaths.sort = options.sort;
+  if (options?.sortDirection !== undefined) optsWithoutPaths.sortDirection = options.sortDirection;
   if (options?.worktrees !== undefined) optsWithoutPaths.worktrees = options.worktrees;
   if (options?.format !== undefined) optsWithoutPaths.format = options.format;
   if (options?.configPath !== undefined) optsWithoutPaths.configPath = options.configPath;
@@ -47,51 +340,185 @@ export async function discoverFromPaths(
   // Pass paths via stdin (one per line)
   const stdin = paths.join("\n");
 
-  const result = await executePjWithStdin(args, stdin);
+  const result = await executePjWithStdin(args, stdin, undefined, {
+    ...options,
+    binaryPath,
+  });
 
-  return parseJsonOutput(result.stdout);
+  return finishDiscovery(parseJsonOutput(result.stdout), options);
 }
 
 /**
  * Find a project by name
+ *
+ * Aliases from the `projects` section of the config are checked first, then
+ * project names and display names. With `fuzzy` set, falls back to the best
+ * fuzzy match when no project has the exact name.
  */
 export async function findProject(
   name: string,
-  options?: DiscoverOptions
+  options?: FindProjectsOptions,
+  discoverer: Discoverer = discover
 ): Promise<Project | undefined> {
-  const projects = await discover(options);
-  return projects.find(
-    (p) => p.name === name || p.name.toLowerCase() === name.toLowerCase()
-  );
+  const projects = await discoverer(options);
+  const lower = name.toLowerCase();
+  const exact =
+    projects.find((p) => p.aliases?.some((a) => a.toLowerCase() === lower)) ??
+    projects.find(
+      (p) =>
+        p.name === name ||
+        p.name.toLowerCase() === lower ||
+        p.displayName?.toLowerCase() === lower
+    );
+  if (exact || !options?.fuzzy) {
+    return exact;
+  }
+  return rankProjects(name, projects)[0]?.project;
 }
 
 /**
  * Find projects matching a pattern
+ *
+ * Patterns are matched against project names, display names, aliases and
+ * paths. A parsed query from `parseProjectQuery` is evaluated like
+ * `queryProjects`.
+ * With `fuzzy` set, a string pattern is fuzzy matched against project names
+ * and paths, and results are ordered by match score. The `dirty`, `ahead`
+ * and `behind` filters only match git repositories and enrich matches with
+ * their git status.
  */
 export async function findProjects(
-  pattern: string | RegExp,
-  options?: DiscoverOptions
+  pattern: string | RegExp | ProjectQuery,
+  options?: FindProjectsOptions,
+  discoverer: Discoverer = discover
+): Promise<Project[]> {
+  if (typeof pattern === "object" && !(pattern instanceof RegExp)) {
+    return queryProjects(pattern, options, discoverer);
+  }
+
+  const projects = await discoverer(options);
+
+  let matches: Project[];
+  if (options?.fuzzy && typeof pattern === "string") {
+    matches = rankProjects(pattern, projects).map((m) => m.project);
+  } else {
+    const regex = typeof pattern === "string" ? new RegExp(pattern, "i") : pattern;
+    matches = projects.filter(
+      (p) =>
+        regex.test(p.name) ||
+        regex.test(p.path) ||
+        (p.displayName !== undefined && regex.test(p.displayName)) ||
+        (p.aliases ?? []).some((a) => regex.test(a))
+    );
+  }
+
+  return applyGitFilters(matches, options);
+}
+
+/**
+ * Find projects matching a structured query
+ *
+ * The query is parsed before discovery, so malformed queries fail fast.
+ * Projects are enriched with git status when the query uses git flags.
+ *
+ * @param query - Query string (see `parseProjectQuery`) or parsed query
+ * @throws PjQueryError if a query string is malformed
+ */
+export async function queryProjects(
+  query: string | ProjectQuery,
+  options?: FindProjectsOptions,
+  discoverer: Discoverer = discover
 ): Promise<Project[]> {
-  const projects = await discover(options);
-  const regex = typeof pattern === "string" ? new RegExp(pattern, "i") : pattern;
-  return projects.filter((p) => regex.test(p.name) || regex.test(p.path));
+  const parsed = typeof query === "string" ? parseProjectQuery(query) : query;
+  const matches = createProjectFilter(parsed);
+
+  const needsGit = queryNeedsGit(parsed) && !options?.enrich?.includes("git");
+  const discoverOptions: FindProjectsOptions | undefined = needsGit
+    ? { ...options, enrich: [...(options?.enrich ?? []), "git"] }
+    : options;
+
+  const projects = await discoverer(discoverOptions);
+  return applyGitFilters(projects.filter(matches), discoverOptions);
+}
+
+/**
+ * Filter projects by the git status filters in the options
+ *
+ * Projects are only enriched with git status when a filter needs it and
+ * discovery didn't already do so.
+ */
+async function applyGitFilters(
+  projects: Project[],
+  options?: FindProjectsOptions
+): Promise<Project[]> {
+  const { dirty, ahead, behind } = options ?? {};
+  if (dirty === undefined && ahead === undefined && behind === undefined) {
+    return projects;
+  }
+
+  const enriched = options?.enrich?.includes("git")
+    ? projects
+    : await enrichProjects(projects, ["git"], options);
+
+  return enriched.filter((p) => {
+    if (!p.git) return false;
+    if (dirty !== undefined && p.git.dirty !== dirty) return false;
+    if (ahead !== undefined && (p.git.ahead ?? 0) > 0 !== ahead) return false;
+    if (behind !== undefined && (p.git.behind ?? 0) > 0 !== behind) return false;
+    return true;
+  });
+}
+
+/**
+ * Fuzzy search projects by name and path
+ *
+ * @returns Matching projects ordered by score, with matched character ranges
+ */
+export async function searchProjects(
+  query: string,
+  options?: DiscoverOptions,
+  discoverer: Discoverer = discover
+): Promise<ProjectMatch[]> {
+  const projects = await discoverer(options);
+  return rankProjects(query, projects);
 }
 
 /**
  * Get projects grouped by marker type
+ *
+ * With `allMarkers` set, each project is listed under every marker it has
+ * rather than only its highest priority marker. With `groupBy: "tag"`,
+ * projects are grouped by their tags instead.
  */
 export async function discoverByMarker(
-  options?: DiscoverOptions
+  options?: MarkerGroupOptions,
+  discoverer: Discoverer = discover
 ): Promise<Map<string, Project[]>> {
-  const projects = await discover(options);
+  const byTag = options?.groupBy === "tag";
+  const needsMarkers =
+    !byTag && options?.allMarkers === true && !options.enrich?.includes("markers");
+  const projects = await discoverer(
+    needsMarkers ? { ...options, enrich: [...(options.enrich ?? []), "markers"] } : options
+  );
   const grouped = new Map<string, Project[]>();
 
   for (const project of projects) {
-    const existing = grouped.get(project.marker);
-    if (existing) {
-      existing.push(project);
+    let keys: string[];
+    if (byTag) {
+      keys = project.tags ?? [];
+    } else if (options?.allMarkers) {
+      keys = project.markers ?? [project.marker];
     } else {
-      grouped.set(project.marker, [project]);
+      keys = [project.marker];
+    }
+
+    for (const key of keys) {
+      const existing = grouped.get(key);
+      if (existing) {
+        existing.push(project);
+      } else {
+        grouped.set(key, [project]);
+      }
     }
   }
 
@@ -100,11 +527,15 @@ export async function discoverByMarker(
 
 /**
  * Count projects by marker type
+ *
+ * With `allMarkers` set, each project is counted under every marker it has.
+ * With `groupBy: "tag"`, projects are counted by tag instead.
  */
 export async function countByMarker(
-  options?: DiscoverOptions
+  options?: MarkerGroupOptions,
+  discoverer: Discoverer = discover
 ): Promise<Map<string, number>> {
-  const grouped = await discoverByMarker(options);
+  const grouped = await discoverByMarker(options, discoverer);
   const counts = new Map<string, number>();
 
   for (const [marker, projects] of grouped) {
@@ -113,3 +544,38 @@ export async function countByMarker(
 
   return counts;
 }
+
+/**
+ * Discover projects as a tree under their search paths
+ *
+ * Search paths are taken from `paths`, or from the config file when not
+ * given; globs become one root per matching directory. See
+ * `buildProjectTree` for how projects are arranged.
+ *
+ * @returns One root node per search path
+ */
+export async function discoverTree(
+  options?: DiscoverOptions,
+  discoverer: Discoverer = discover
+): Promise<ProjectTreeRoot[]> {
+  const configured = options?.paths ?? (await loadConfig(options?.configPath)).paths;
+  const { paths: roots } = await expandSearchPaths(configured);
+  const projects = await discoverer(options);
+  return buildProjectTree(projects, roots.map(searchPathOf));
+}
+
+/**
+ * Find projects that are separate clones of the same repository
+ *
+ * Clones are matched by their normalized "origin" remote and enriched with
+ * git status so the groups can report diverged branches and commits. See
+ * `groupDuplicates` for details.
+ *
+ * @returns Groups with at least two clones, sorted by remote
+ */
+export async function findDuplicates(
+  options?: DiscoverOptions,
+  discoverer: Discoverer = discover
+): Promise<DuplicateGroup[]> {
+  return groupDuplicates(await discoverer(options), options);
+}
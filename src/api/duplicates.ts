@@ -0,0 +1,115 @@
+import type { DiscoverOptions, DuplicateGroup, Project } from "./types.js";
+import { throwIfAborted } from "./abort.js";
+import { DEFAULT_CONCURRENCY, mapWithConcurrency } from "../enrich/concurrency.js";
+import { enrichProjects } from "../enrich/enricher.js";
+import {
+  normalizeRemoteUrl,
+  readConfigRemotes,
+  resolveGitDirs,
+} from "../enrich/remotes.js";
+
+/**
+ * Identify the repository a project is a checkout of
+ *
+ * @returns The repository's common git directory and the normalized URL of its
+ *   "origin" remote (or its first remote), or undefined if the project is not
+ *   a git checkout
+ */
+async function readIdentity(
+  projectPath: string
+): Promise<{ commonDir: string; remote: string | undefined } | undefined> {
+  const dirs = await resolveGitDirs(projectPath);
+  if (!dirs) {
+    return undefined;
+  }
+
+  const remotes = await readConfigRemotes(dirs.commonDir);
+  const remote = remotes.find((r) => r.name === "origin") ?? remotes[0];
+
+  return {
+    commonDir: dirs.commonDir,
+    remote: remote ? normalizeRemoteUrl(remote.url) : undefined,
+  };
+}
+
+function lastCommitTime(project: Project): number {
+  const date = project.git?.lastCommit?.date;
+  return date ? Date.parse(date) : 0;
+}
+
+function describeGroup(remote: string, projects: Project[]): DuplicateGroup {
+  const sorted = [...projects].sort((a, b) => lastCommitTime(b) - lastCommitTime(a));
+  const branches = new Set(sorted.map((p) => p.git?.branch ?? p.git?.head));
+  const heads = new Set(sorted.map((p) => p.git?.head));
+
+  return {
+    remote,
+    projects: sorted,
+    branchesDiffer: branches.size > 1,
+    headsDiffer: heads.size > 1,
+    dirty: sorted.some((p) => p.git?.dirty === true),
+  };
+}
+
+/**
+ * Group projects that are separate clones of the same repository
+ *
+ * Each project is identified by its "origin" remote, or its first remote if it
+ * has no origin, with the URL normalized by `normalizeRemoteUrl`. Worktrees
+ * share their repository's remotes, so only one checkout per repository is
+ * considered, preferring the main worktree. Projects in a group are enriched
+ * with git status to report how the clones have diverged.
+ *
+ * @param projects - Discovered projects
+ * @param options - Supplies concurrency and the abort signal
+ * @returns Groups with at least two clones, sorted by remote
+ */
+export async function groupDuplicates(
+  projects: Project[],
+  options?: DiscoverOptions
+): Promise<DuplicateGroup[]> {
+  // Main worktrees first so they represent their repository
+  const ordered = [...projects].sort(
+    (a, b) => Number(a.isWorktree === true) - Number(b.isWorktree === true)
+  );
+
+  const identities = await mapWithConcurrency(
+    ordered,
+    options?.concurrency ?? DEFAULT_CONCURRENCY,
+    async (project) => {
+      throwIfAborted(options?.signal);
+      return readIdentity(project.path);
+    }
+  );
+
+  const seenRepositories = new Set<string>();
+  const byRemote = new Map<string, Project[]>();
+
+  ordered.forEach((project, index) => {
+    const identity = identities[index];
+    if (!identity?.remote || seenRepositories.has(identity.commonDir)) {
+      return;
+    }
+    seenRepositories.add(identity.commonDir);
+
+    const clones = byRemote.get(identity.remote);
+    if (clones) {
+      clones.push(project);
+    } else {
+      byRemote.set(identity.remote, [project]);
+    }
+  });
+
+  const groups: DuplicateGroup[] = [];
+  for (const [remote, clones] of [...byRemote].sort(([a], [b]) => a.localeCompare(b))) {
+    if (clones.length < 2) {
+      continue;
+    }
+    const enriched = clones.every((p) => p.git !== undefined)
+      ? clones
+      : await enrichProjects(clones, ["git"], options);
+    groups.push(describeGroup(remote, enriched));
+  }
+
+  return groups;
+}
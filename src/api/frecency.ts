@@ -0,0 +1,320 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import type { FrecencyEntry, Project } from "./types.js";
+import { getFrecencyPath } from "../binary/constants.js";
+
+/** Total rank above which the store is automatically aged */
+const MAX_TOTAL_RANK = 10000;
+
+/** Factor applied to every rank when aging the store */
+const DEFAULT_DECAY_FACTOR = 0.9;
+
+/** Entries whose rank falls below this after decay are forgotten */
+const MIN_RANK = 1;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+/**
+ * Stored visit data for a single project
+ */
+interface StoredEntry {
+  visits: number;
+  rank: number;
+  lastVisit: string;
+}
+
+/**
+ * On-disk format of the frecency store
+ */
+interface StoreFile {
+  version: 1;
+  entries: Record<string, StoredEntry>;
+}
+
+/**
+ * Compute the frecency score for an entry
+ *
+ * The rank is weighted by how recently the project was visited: visits in the
+ * last hour count four times, the last day twice, the last week half, and
+ * anything older a quarter.
+ */
+export function frecencyScore(
+  entry: Pick<FrecencyEntry, "rank" | "lastVisit">,
+  now: Date = new Date()
+): number {
+  const age = now.getTime() - new Date(entry.lastVisit).getTime();
+
+  if (age < HOUR_MS) {
+    return entry.rank * 4;
+  }
+  if (age < DAY_MS) {
+    return entry.rank * 2;
+  }
+  if (age < WEEK_MS) {
+    return entry.rank / 2;
+  }
+  return entry.rank / 4;
+}
+
+/**
+ * Sort projects by frecency score
+ *
+ * Projects without a recorded visit keep their original relative order and
+ * are placed after visited projects (or before them when ascending).
+ */
+export function sortByFrecency(
+  projects: Project[],
+  entries: FrecencyEntry[],
+  direction: "asc" | "desc" = "desc"
+): Project[] {
+  const scores = new Map(entries.map((e) => [e.path, e.score]));
+  const sign = direction === "asc" ? -1 : 1;
+
+  return [...projects].sort(
+    (a, b) => sign * ((scores.get(b.path) ?? 0) - (scores.get(a.path) ?? 0))
+  );
+}
+
+/**
+ * Persistent store of project visits used for frecency ranking
+ *
+ * Visits are stored as JSON under the pj-node cache directory. Operations on a
+ * store instance are serialized, so concurrent calls never lose updates.
+ */
+export class FrecencyStore {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Create a frecency store
+   *
+   * @param filePath - Path to the store file (defaults to the cache directory)
+   */
+  constructor(private readonly filePath: string = getFrecencyPath()) {}
+
+  /**
+   * Get the path to the store file
+   */
+  getPath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Record a visit to a project
+   *
+   * @param project - Project or absolute project path
+   * @param now - Time of the visit
+   * @returns The updated entry
+   */
+  async recordVisit(
+    project: Project | string,
+    now: Date = new Date()
+  ): Promise<FrecencyEntry> {
+    const projectPath = typeof project === "string" ? project : project.path;
+
+    return this.update((store) => {
+      const existing = store.entries[projectPath];
+      const entry: StoredEntry = {
+        visits: (existing?.visits ?? 0) + 1,
+        rank: (existing?.rank ?? 0) + 1,
+        lastVisit: now.toISOString(),
+      };
+      store.entries[projectPath] = entry;
+
+      const totalRank = Object.values(store.entries).reduce(
+        (sum, e) => sum + e.rank,
+        0
+      );
+      if (totalRank > MAX_TOTAL_RANK) {
+        applyDecay(store, DEFAULT_DECAY_FACTOR);
+      }
+
+      return toEntry(projectPath, store.entries[projectPath] ?? entry, now);
+    });
+  }
+
+  /**
+   * Get the entry for a project
+   *
+   * @param projectPath - Absolute project path
+   */
+  async getEntry(
+    projectPath: string,
+    now: Date = new Date()
+  ): Promise<FrecencyEntry | undefined> {
+    const store = await this.enqueue(() => this.read());
+    const entry = store.entries[projectPath];
+    return entry ? toEntry(projectPath, entry, now) : undefined;
+  }
+
+  /**
+   * Get all entries, highest score first
+   */
+  async getEntries(now: Date = new Date()): Promise<FrecencyEntry[]> {
+    const store = await this.enqueue(() => this.read());
+    return Object.entries(store.entries)
+      .map(([p, entry]) => toEntry(p, entry, now))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Sort projects by frecency score
+   *
+   * @param projects - Projects to sort
+   * @param direction - "desc" (default) puts the most frecent projects first
+   */
+  async rank(
+    projects: Project[],
+    direction: "asc" | "desc" = "desc"
+  ): Promise<Project[]> {
+    const entries = await this.getEntries();
+    return sortByFrecency(projects, entries, direction);
+  }
+
+  /**
+   * Multiply every rank by a factor, forgetting entries that fall below 1
+   *
+   * @param factor - Decay factor between 0 and 1
+   * @returns Paths of the forgotten entries
+   */
+  async decay(factor: number = DEFAULT_DECAY_FACTOR): Promise<string[]> {
+    if (!(factor > 0 && factor <= 1)) {
+      throw new RangeError(`Decay factor must be in (0, 1], got ${String(factor)}`);
+    }
+    return this.update((store) => applyDecay(store, factor));
+  }
+
+  /**
+   * Remove entries for projects that no longer exist on disk
+   *
+   * @returns Paths of the removed entries
+   */
+  async prune(): Promise<string[]> {
+    return this.update(async (store) => {
+      const removed: string[] = [];
+
+      for (const projectPath of Object.keys(store.entries)) {
+        try {
+          await fs.access(projectPath);
+        } catch {
+          removed.push(projectPath);
+        }
+      }
+
+      for (const projectPath of removed) {
+        // eslint-disable-next-line @typescript-eslint/no-dynamic-delete -- entries are keyed by path
+        delete store.entries[projectPath];
+      }
+
+      return removed;
+    });
+  }
+
+  /**
+   * Remove an entry from the store
+   *
+   * @param projectPath - Absolute project path
+   * @returns Whether an entry was removed
+   */
+  async remove(projectPath: string): Promise<boolean> {
+    return this.update((store) => {
+      if (!(projectPath in store.entries)) {
+        return false;
+      }
+      // eslint-disable-next-line @typescript-eslint/no-dynamic-delete -- entries are keyed by path
+      delete store.entries[projectPath];
+      return true;
+    });
+  }
+
+  /**
+   * Remove all entries from the store
+   */
+  async clear(): Promise<void> {
+    await this.enqueue(() => this.write({ version: 1, entries: {} }));
+  }
+
+  /**
+   * Run an operation after all previously queued operations have finished
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation, operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Read, modify and write the store as a single queued operation
+   */
+  private update<T>(mutate: (store: StoreFile) => T | Promise<T>): Promise<T> {
+    return this.enqueue(async () => {
+      const store = await this.read();
+      const result = await mutate(store);
+      await this.write(store);
+      return result;
+    });
+  }
+
+  private async read(): Promise<StoreFile> {
+    try {
+      const content = await fs.readFile(this.filePath, "utf-8");
+      const parsed = JSON.parse(content) as Partial<StoreFile>;
+      return { version: 1, entries: parsed.entries ?? {} };
+    } catch {
+      // Missing or unreadable store starts out empty
+      return { version: 1, entries: {} };
+    }
+  }
+
+  private async write(store: StoreFile): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    // Write to a temporary file first so readers never see a partial store
+    const tmpPath = `${this.filePath}.${String(process.pid)}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(store, null, 2));
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Multiply every rank in the store by a factor, removing forgotten entries
+ */
+function applyDecay(store: StoreFile, factor: number): string[] {
+  const removed: string[] = [];
+
+  for (const [projectPath, entry] of Object.entries(store.entries)) {
+    entry.rank *= factor;
+    if (entry.rank < MIN_RANK) {
+      removed.push(projectPath);
+    }
+  }
+
+  for (const projectPath of removed) {
+    // eslint-disable-next-line @typescript-eslint/no-dynamic-delete -- entries are keyed by path
+    delete store.entries[projectPath];
+  }
+
+  return removed;
+}
+
+function toEntry(projectPath: string, entry: StoredEntry, now: Date): FrecencyEntry {
+  return {
+    path: projectPath,
+    visits: entry.visits,
+    rank: entry.rank,
+    lastVisit: entry.lastVisit,
+    score: frecencyScore(entry, now),
+  };
+}
+
+/** Singleton instance */
+let frecencyStore: FrecencyStore | null = null;
+
+/**
+ * Get the singleton FrecencyStore instance
+ */
+export function getFrecencyStore(): FrecencyStore {
+  frecencyStore ??= new FrecencyStore();
+  return frecencyStore;
+}
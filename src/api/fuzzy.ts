@@ -0,0 +1,314 @@
+import type { FuzzyMatch, MatchRange, Project, ProjectMatch } from "./types.js";
+
+/** Score for each matched character */
+const SCORE_MATCH = 16;
+
+/** Penalty for starting a gap between matched characters */
+const PENALTY_GAP_START = 3;
+
+/** Penalty for each additional character in a gap */
+const PENALTY_GAP_EXTENSION = 1;
+
+/** Bonus for a match at the very start of the target */
+const BONUS_START = 10;
+
+/** Bonus for a match right after a separator (/, -, _, ., space) */
+const BONUS_BOUNDARY = 8;
+
+/** Bonus for a match on a camelCase or letter-to-digit transition */
+const BONUS_CAMEL = 7;
+
+/** Minimum bonus for a match directly following the previous matched character */
+const BONUS_CONSECUTIVE = 5;
+
+/** Bonus for matching the exact case of the query character */
+const BONUS_CASE = 1;
+
+/** Bonus applied to matches against the project name instead of its path */
+const BONUS_NAME = 20;
+
+const SEPARATORS = new Set(["/", "\\", "-", "_", ".", " ", ":"]);
+
+/**
+ * Bonus for matching each character of a target, based on what precedes it
+ */
+function positionBonuses(chars: string[]): number[] {
+  return chars.map((curr, index) => {
+    if (index === 0) {
+      return BONUS_START;
+    }
+
+    const prev = chars[index - 1] ?? "";
+    if (SEPARATORS.has(prev)) {
+      return BONUS_BOUNDARY;
+    }
+    if (prev !== prev.toUpperCase() && curr !== curr.toLowerCase()) {
+      return BONUS_CAMEL;
+    }
+    if (/\D/.test(prev) && /\d/.test(curr)) {
+      return BONUS_CAMEL;
+    }
+    return 0;
+  });
+}
+
+/**
+ * Merge sorted character positions into contiguous [start, end) ranges
+ */
+function toRanges(positions: number[]): MatchRange[] {
+  const ranges: MatchRange[] = [];
+
+  for (const pos of positions) {
+    const last = ranges[ranges.length - 1];
+    if (last?.[1] === pos) {
+      last[1] = pos + 1;
+    } else {
+      ranges.push([pos, pos + 1]);
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Merge two sets of ranges into a sorted, non-overlapping set
+ */
+function mergeRanges(a: MatchRange[], b: MatchRange[]): MatchRange[] {
+  const sorted = [...a, ...b].sort((x, y) => x[0] - y[0]);
+  const merged: MatchRange[] = [];
+
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Fuzzy match a query against a target string
+ *
+ * The query must appear in the target as a case-insensitive subsequence.
+ * Matches are scored in the style of fzf: characters at word boundaries,
+ * camelCase transitions and consecutive runs score higher, and gaps between
+ * matched characters are penalized. The highest scoring alignment is returned.
+ *
+ * Characters are compared by code point, each lowercased on its own, so
+ * ranges always index into the original target. Scoring takes O(m·n) time
+ * for a query of m and a target of n characters.
+ *
+ * @returns The match, or null if the query is not a subsequence of the target
+ */
+export function fuzzyMatch(query: string, target: string): FuzzyMatch | null {
+  const queryChars = Array.from(query);
+  const targetChars = Array.from(target);
+  const m = queryChars.length;
+  const n = targetChars.length;
+
+  if (m === 0) {
+    return { score: 0, ranges: [] };
+  }
+  if (m > n) {
+    return null;
+  }
+
+  const q = queryChars.map((c) => c.toLowerCase());
+  const t = targetChars.map((c) => c.toLowerCase());
+  const bonuses = positionBonuses(targetChars);
+
+  // best[i][j]: best score for matching q[0..i] with q[i] at t[j]
+  // from[i][j]: position of q[i - 1] in that alignment
+  // run[i][j]: bonus of the first character in the consecutive run ending at t[j]
+  const best: Float64Array[] = [];
+  const from: Int32Array[] = [];
+  const run: Float64Array[] = [];
+
+  for (let i = 0; i < m; i++) {
+    const row = new Float64Array(n).fill(-Infinity);
+    const back = new Int32Array(n).fill(-1);
+    const runRow = new Float64Array(n);
+    const prevRow = best[i - 1];
+    const prevRun = run[i - 1];
+    const qc = q[i];
+
+    // Best score of an alignment of q[0..i - 1] followed by a gap up to j,
+    // with the gap penalty applied, and where q[i - 1] was matched
+    let gapScore = -Infinity;
+    let gapFrom = -1;
+
+    for (let j = i; j < n; j++) {
+      if (prevRow && j >= 2) {
+        const opened = (prevRow[j - 2] ?? -Infinity) - PENALTY_GAP_START;
+        gapScore -= PENALTY_GAP_EXTENSION;
+        if (opened > gapScore) {
+          gapScore = opened;
+          gapFrom = j - 2;
+        }
+      }
+      if (t[j] !== qc) {
+        continue;
+      }
+
+      const bonus = bonuses[j] ?? 0;
+      const charScore = SCORE_MATCH + (queryChars[i] === targetChars[j] ? BONUS_CASE : 0);
+
+      if (!prevRow || !prevRun) {
+        row[j] = charScore + bonus;
+        runRow[j] = bonus;
+        continue;
+      }
+
+      if (gapScore > -Infinity) {
+        row[j] = gapScore + charScore + bonus;
+        back[j] = gapFrom;
+        runRow[j] = bonus;
+      }
+
+      // Characters in a consecutive run inherit the bonus of the run's first
+      // character, so "api" in "my-api" beats "a-p-i"
+      const prev = prevRow[j - 1] ?? -Infinity;
+      if (prev > -Infinity) {
+        const runBonus = Math.max(bonus, prevRun[j - 1] ?? 0, BONUS_CONSECUTIVE);
+        const score = prev + charScore + runBonus;
+        if (score > (row[j] ?? -Infinity)) {
+          row[j] = score;
+          back[j] = j - 1;
+          runRow[j] = runBonus;
+        }
+      }
+    }
+
+    best.push(row);
+    from.push(back);
+    run.push(runRow);
+  }
+
+  const lastRow = best[m - 1];
+  if (!lastRow) {
+    return null;
+  }
+
+  let end = -1;
+  let score = -Infinity;
+  for (let j = 0; j < n; j++) {
+    const s = lastRow[j] ?? -Infinity;
+    if (s > score) {
+      score = s;
+      end = j;
+    }
+  }
+
+  if (end === -1) {
+    return null;
+  }
+
+  const positions: number[] = [];
+  for (let i = m - 1, j = end; i >= 0 && j >= 0; i--) {
+    positions.push(j);
+    j = from[i]?.[j] ?? -1;
+  }
+  positions.reverse();
+
+  // Convert code point positions to offsets in the target
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const char of targetChars) {
+    offsets.push(offset);
+    offset += char.length;
+  }
+  const ranges = toRanges(positions).map(
+    ([first, last]): MatchRange => [offsets[first] ?? offset, offsets[last] ?? offset]
+  );
+
+  return { score, ranges };
+}
+
+/**
+ * A name a project can be found by
+ */
+interface NameCandidate {
+  kind: "name" | "displayName" | "alias";
+  value: string;
+}
+
+/**
+ * Score a single project against a query
+ *
+ * Whitespace-separated terms in the query must each match the project's
+ * name, display name, one of its aliases, or its path. Name matches are
+ * preferred over path matches, and the name itself over the other names.
+ *
+ * @returns The match, or null if any term does not match
+ */
+export function scoreProject(query: string, project: Project): ProjectMatch | null {
+  const terms = query.trim().split(/\s+/).filter(Boolean);
+  const candidates: NameCandidate[] = [{ kind: "name", value: project.name }];
+  if (project.displayName !== undefined) {
+    candidates.push({ kind: "displayName", value: project.displayName });
+  }
+  for (const alias of project.aliases ?? []) {
+    candidates.push({ kind: "alias", value: alias });
+  }
+
+  let score = 0;
+  let nameRanges: MatchRange[] = [];
+  let displayNameRanges: MatchRange[] = [];
+  let pathRanges: MatchRange[] = [];
+  const matchedAliases: string[] = [];
+
+  for (const term of terms) {
+    let best: { candidate: NameCandidate; match: FuzzyMatch } | undefined;
+    for (const candidate of candidates) {
+      const match = fuzzyMatch(term, candidate.value);
+      if (match && (!best || match.score > best.match.score)) {
+        best = { candidate, match };
+      }
+    }
+    const pathMatch = fuzzyMatch(term, project.path);
+
+    if (best && (!pathMatch || best.match.score + BONUS_NAME >= pathMatch.score)) {
+      const { candidate, match } = best;
+      score += match.score + BONUS_NAME;
+      if (candidate.kind === "name") {
+        nameRanges = mergeRanges(nameRanges, match.ranges);
+      } else if (candidate.kind === "displayName") {
+        displayNameRanges = mergeRanges(displayNameRanges, match.ranges);
+      } else if (!matchedAliases.includes(candidate.value)) {
+        matchedAliases.push(candidate.value);
+      }
+    } else if (pathMatch) {
+      score += pathMatch.score;
+      pathRanges = mergeRanges(pathRanges, pathMatch.ranges);
+    } else {
+      return null;
+    }
+  }
+
+  return { project, score, nameRanges, displayNameRanges, pathRanges, matchedAliases };
+}
+
+/**
+ * Fuzzy match projects against a query and order them by score
+ *
+ * Ties are broken by shorter names first, then by the original order.
+ *
+ * @returns Matching projects, best match first
+ */
+export function rankProjects(query: string, projects: Project[]): ProjectMatch[] {
+  const matches: ProjectMatch[] = [];
+
+  for (const project of projects) {
+    const match = scoreProject(query, project);
+    if (match) {
+      matches.push(match);
+    }
+  }
+
+  return matches.sort(
+    (a, b) => b.score - a.score || a.project.name.length - b.project.name.length
+  );
+}
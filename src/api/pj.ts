@@ -1,22 +1,76 @@
+import { EventEmitter } from "node:events";
+import { isDeepStrictEqual } from "node:util";
+
 import type {
   BinaryOptions,
   BinaryStatus,
   CacheInfo,
+  ConfigDiagnostic,
   DiscoverOptions,
+  DuplicateGroup,
+  FrecencyEntry,
+  FindProjectsOptions,
+  GitWorktree,
+  ConfigValueSource,
+  LoadConfigOptions,
+  MarkerGroupOptions,
   PjConfig,
+  PjOptions,
   Project,
+  ProjectMatch,
+  ProjectQuery,
+  ProjectTreeRoot,
+  ResolveConfigOptions,
+  RetryPolicy,
+  WatchConfigOptions,
+  WatchOptions,
 } from "./types.js";
+import { PjConfigValidationError } from "./types.js";
 import {
   discover,
+  discoverRaw,
+  discoveryKey,
+  finishDiscovery,
+  discoverStream,
   discoverFromPaths,
   findProject,
   findProjects,
+  queryProjects,
+  searchProjects,
   discoverByMarker,
   countByMarker,
+  discoverTree,
+  findDuplicates,
+  type Discoverer,
 } from "./discover.js";
-import { loadConfig, saveConfig, DEFAULT_CONFIG } from "./config.js";
+import { ResultCache } from "./result-cache.js";
+import { mergeProfile, DEFAULT_CONFIG } from "./config.js";
+import { editConfig } from "./config-editor.js";
+import {
+  explainConfig,
+  getConfigFiles,
+  PROFILE_ENV_VAR,
+  resolveConfig,
+} from "./config-layers.js";
+import { ConfigWatcher } from "./config-watcher.js";
+import { formatConfigDiagnostic, validateConfig } from "./config-validation.js";
 import { clearCache, getCacheInfo } from "./cache.js";
+import { getFrecencyStore } from "./frecency.js";
+import { watchProjects, type ProjectWatcher } from "./watch.js";
 import { getBinaryManager } from "../binary/manager.js";
+import { getWorktrees } from "../enrich/worktrees.js";
+
+/**
+ * Events emitted by a Pj instance
+ */
+export interface PjEvents {
+  /** A config reload changed the instance config */
+  "config:changed": [config: PjConfig, previous: PjConfig];
+  /** A config reload failed; the previous config stays in use */
+  "config:error": [error: unknown];
+  /** A reloaded config file has warnings, such as unknown keys */
+  "config:warning": [diagnostics: ConfigDiagnostic[], filePath: string];
+}
 
 /**
  * Main class for interacting with pj
@@ -36,18 +90,88 @@ import { getBinaryManager } from "../binary/manager.js";
  *
  * // Search for projects
  * const reactProjects = await pj.findProjects(/react/i);
+ *
+ * // Query projects
+ * const dirtyGoProjects = await pj.query('marker:go.mod is:dirty');
  * ```
  */
-export class Pj {
+export class Pj extends EventEmitter<PjEvents> {
   private config: PjConfig;
+  private overrides: Partial<PjConfig>;
+  private readonly profile: string | undefined;
+  private configPath: string | undefined;
+  private configWatcher: ConfigWatcher | undefined;
+  private reloading: Promise<void> = Promise.resolve();
+  private readonly timeoutMs: number | undefined;
+  private readonly retry: RetryPolicy | undefined;
+  private readonly cache: ResultCache<Project[]> | undefined;
 
   /**
    * Create a new Pj instance
    *
-   * @param config - Optional configuration overrides
+   * @param options - Optional configuration overrides, plus the default
+   *   `timeoutMs` and `retry` policy for every pj run made by this instance
+   *   and the result cache settings
    */
-  constructor(config?: Partial<PjConfig>) {
+  constructor(options?: PjOptions) {
+    super();
+    const {
+      timeoutMs,
+      retry,
+      resultCache,
+      staleWhileRevalidate,
+      autoReload,
+      profile,
+      ...config
+    } = options ?? {};
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.overrides = config;
+    const envProfile = process.env[PROFILE_ENV_VAR];
+    this.profile = profile ?? (envProfile === "" ? undefined : envProfile);
+    this.timeoutMs = timeoutMs;
+    this.retry = retry;
+    this.cache = resultCache
+      ? new ResultCache(() => this.config.cacheTTL * 1000, staleWhileRevalidate)
+      : undefined;
+    if (autoReload) {
+      this.watchConfig().catch((error: unknown) => {
+        this.emit("config:error", error);
+      });
+    }
+  }
+
+  /**
+   * Discover projects through the result cache
+   *
+   * Raw results are cached per discovery key; enrichment, workspace expansion
+   * and frecency ranking run on every call. `noCache` bypasses cached results
+   * and stores the fresh one.
+   */
+  private readonly discoverer: Discoverer = async (options) => {
+    if (!this.cache) {
+      return discover(options);
+    }
+
+    const projects = await this.cache.get(
+      discoveryKey(options),
+      (signal) => discoverRaw({ ...options, signal }),
+      { signal: options?.signal, refresh: options?.noCache }
+    );
+    // Copy so callers can't modify the cached result
+    return finishDiscovery(projects.map((p) => ({ ...p })), options);
+  };
+
+  /**
+   * Drop cached discovery results
+   *
+   * @param options - Drop only the result for these discovery options
+   *   (merged with the instance config like any other call); drops every
+   *   result if omitted
+   */
+  invalidate(options?: DiscoverOptions): void {
+    this.cache?.invalidate(
+      options === undefined ? undefined : discoveryKey(this.mergeOptions(options))
+    );
   }
 
   /**
@@ -57,7 +181,34 @@ export class Pj {
    * @returns Array of discovered projects
    */
   async discover(options?: DiscoverOptions): Promise<Project[]> {
-    return discover(this.mergeOptions(options));
+    return this.discoverer(this.mergeOptions(options));
+  }
+
+  /**
+   * Discover projects as a stream
+   *
+   * Projects are yielded as soon as pj reports them. Breaking out of the
+   * iteration early kills the underlying pj process.
+   *
+   * @param options - Discovery options
+   * @returns Async iterable of discovered projects
+   */
+  discoverStream(options?: DiscoverOptions): AsyncIterable<Project> {
+    return discoverStream(this.mergeOptions(options));
+  }
+
+  /**
+   * Watch for projects being added, removed or changed
+   *
+   * Watches the configured search paths down to `maxDepth` and re-runs
+   * discovery when the filesystem changes. Call `close()` on the returned
+   * watcher to stop watching.
+   *
+   * @param options - Discovery options, plus the debounce delay
+   * @returns A watcher that emits project events and is async iterable
+   */
+  watch(options?: WatchOptions): ProjectWatcher {
+    return watchProjects(this.mergeOptions(options));
   }
 
   /**
@@ -80,82 +231,298 @@ export class Pj {
    * Find a project by name
    *
    * @param name - Project name to find
-   * @param options - Discovery options
+   * @param options - Discovery options; set `fuzzy` to fall back to the best
+   *   fuzzy match when there is no exact name hit
    */
   async findProject(
     name: string,
-    options?: DiscoverOptions
+    options?: FindProjectsOptions
   ): Promise<Project | undefined> {
-    return findProject(name, this.mergeOptions(options));
+    return findProject(name, this.mergeOptions(options), this.discoverer);
   }
 
   /**
    * Find projects matching a pattern
    *
-   * @param pattern - String or regex pattern to match
-   * @param options - Discovery options
+   * @param pattern - String or regex pattern to match, or a parsed query
+   * @param options - Discovery options; set `fuzzy` to rank results by fuzzy
+   *   match score
    */
   async findProjects(
-    pattern: string | RegExp,
-    options?: DiscoverOptions
+    pattern: string | RegExp | ProjectQuery,
+    options?: FindProjectsOptions
   ): Promise<Project[]> {
-    return findProjects(pattern, this.mergeOptions(options));
+    return findProjects(pattern, this.mergeOptions(options), this.discoverer);
   }
 
   /**
-   * Get projects grouped by marker type
+   * Find projects matching a structured query
    *
+   * @param query - Query such as `marker:go.mod path:~/work -worktree is:dirty`,
+   *   or a query parsed with `parseProjectQuery`
    * @param options - Discovery options
+   * @throws PjQueryError if a query string is malformed
    */
-  async discoverByMarker(
+  async query(
+    query: string | ProjectQuery,
+    options?: FindProjectsOptions
+  ): Promise<Project[]> {
+    return queryProjects(query, this.mergeOptions(options), this.discoverer);
+  }
+
+  /**
+   * Fuzzy search projects by name and path
+   *
+   * @param query - Fuzzy search query
+   * @param options - Discovery options
+   * @returns Matching projects ordered by score, with matched character ranges
+   */
+  async searchProjects(
+    query: string,
     options?: DiscoverOptions
+  ): Promise<ProjectMatch[]> {
+    return searchProjects(query, this.mergeOptions(options), this.discoverer);
+  }
+
+  /**
+   * Get projects grouped by marker type
+   *
+   * @param options - Discovery options; set `allMarkers` to list each project
+   *   under every marker it has
+   */
+  async discoverByMarker(
+    options?: MarkerGroupOptions
   ): Promise<Map<string, Project[]>> {
-    return discoverByMarker(this.mergeOptions(options));
+    return discoverByMarker(this.mergeOptions(options), this.discoverer);
   }
 
   /**
    * Count projects by marker type
    *
+   * @param options - Discovery options; set `allMarkers` to count each project
+   *   under every marker it has
+   */
+  async countByMarker(options?: MarkerGroupOptions): Promise<Map<string, number>> {
+    return countByMarker(this.mergeOptions(options), this.discoverer);
+  }
+
+  /**
+   * Discover projects as a tree under the configured search paths
+   *
+   * Roots hold the directories leading to each project; nested projects and
+   * worktrees are listed under the project containing them.
+   *
+   * @param options - Discovery options
+   * @returns One root node per search path
+   */
+  async discoverTree(options?: DiscoverOptions): Promise<ProjectTreeRoot[]> {
+    return discoverTree(this.mergeOptions(options), this.discoverer);
+  }
+
+  /**
+   * Find projects that are separate clones of the same repository
+   *
+   * Clones are matched by their normalized remote URL, so ssh and https
+   * clones of the same repository are grouped together.
+   *
    * @param options - Discovery options
+   * @returns Groups of clones, with the branches and commits they differ on
+   */
+  async findDuplicates(options?: DiscoverOptions): Promise<DuplicateGroup[]> {
+    return findDuplicates(this.mergeOptions(options), this.discoverer);
+  }
+
+  /**
+   * List the git worktrees of a project's repository
+   *
+   * @param project - Project or absolute project path
+   * @param signal - Cancels the git command
+   * @returns Every worktree with its branch, HEAD and locked/prunable state,
+   *   main worktree first; empty if the project is not a git repository
+   */
+  async getWorktrees(
+    project: Project | string,
+    signal?: AbortSignal
+  ): Promise<GitWorktree[]> {
+    return getWorktrees(project, signal);
+  }
+
+  /**
+   * Record a visit to a project for frecency ranking
+   *
+   * Visited projects are ranked first when discovering with
+   * `sort: "frecency"`.
+   *
+   * @param project - Project or absolute project path
+   * @returns The updated frecency entry
    */
-  async countByMarker(options?: DiscoverOptions): Promise<Map<string, number>> {
-    return countByMarker(this.mergeOptions(options));
+  async recordVisit(project: Project | string): Promise<FrecencyEntry> {
+    return getFrecencyStore().recordVisit(project);
   }
 
   /**
-   * Clear the pj project cache
+   * Clear the pj project cache (of this instance's profile, if any)
    */
   async clearCache(): Promise<void> {
-    return clearCache();
+    this.invalidate();
+    return clearCache(this.profile);
   }
 
   /**
-   * Get information about the pj cache
+   * Get information about the pj cache (of this instance's profile, if any)
    */
   async getCacheInfo(): Promise<CacheInfo> {
-    return getCacheInfo();
+    return getCacheInfo(this.profile);
   }
 
   /**
-   * Load configuration from file
+   * Load the layered configuration
    *
-   * @param configPath - Optional path to config file
+   * Resolves the system-wide file, the user file, the nearest `.pj.yaml`,
+   * the instance's profile, `PJ_*` environment variables and the options
+   * this instance was created with (plus any `setConfig` changes), in that
+   * order of precedence.
+   *
+   * @param configPath - Optional path to the user config file
+   * @param options - Set `strict` to reject invalid configs
+   * @throws PjConfigValidationError in strict mode if a config is invalid
+   * @throws PjConfigError if a config file or environment variable is invalid,
+   *   or the profile isn't configured
    */
-  async loadConfig(configPath?: string): Promise<PjConfig> {
-    const loaded = await loadConfig(configPath);
+  async loadConfig(configPath?: string, options?: LoadConfigOptions): Promise<PjConfig> {
+    this.configPath = configPath ?? this.configPath;
+    const loaded = await resolveConfig(this.resolveOptions(this.configPath, options));
     this.config = loaded;
+    this.invalidate();
     return loaded;
   }
 
   /**
-   * Save configuration to file
+   * Load the config and reload it whenever one of its files changes
+   *
+   * Watches the system-wide file, the user file and the nearest `.pj.yaml`.
+   * The config is loaded once watching has started, and again on every
+   * change. A config without validation errors replaces the instance config
+   * in one step, drops cached discovery results and emits "config:changed";
+   * warnings such as unknown keys are emitted as "config:warning". A config
+   * that can't be loaded emits "config:error" and leaves the previous config
+   * in use. Watching replaces any previous config watcher.
    *
-   * @param config - Configuration to save (uses current config if not provided)
-   * @param configPath - Optional path to config file
+   * @param options - Config file and debounce delay
+   * @returns The watcher, once the config has been loaded; `unwatchConfig()`
+   *   stops it
+   *
+   * @example
+   * ```typescript
+   * const pj = new Pj();
+   * pj.on('config:changed', (config) => console.log('paths', config.paths));
+   * pj.on('config:error', (error) => console.error(error));
+   * await pj.watchConfig();
+   * ```
+   */
+  async watchConfig(options?: WatchConfigOptions): Promise<ConfigWatcher> {
+    this.configPath = options?.configPath ?? this.configPath;
+    const files = await getConfigFiles(this.resolveOptions(this.configPath, undefined));
+
+    this.unwatchConfig();
+    this.configWatcher = new ConfigWatcher(
+      files,
+      () => {
+        this.reloading = this.reloading.then(() => this.reloadConfig());
+      },
+      (error) => {
+        this.emit("config:error", error);
+      },
+      options?.debounceMs
+    );
+
+    const watcher = this.configWatcher;
+    this.reloading = this.reloading.then(() => this.reloadConfig());
+    await this.reloading;
+    return watcher;
+  }
+
+  /**
+   * Stop reloading the config on changes
+   */
+  unwatchConfig(): void {
+    this.configWatcher?.close();
+    this.configWatcher = undefined;
+  }
+
+  /**
+   * Load the config after a change, keeping the current one if that fails
+   *
+   * Only validation errors reject the new config; warnings are reported and
+   * the config applied, as `loadConfig` would.
+   */
+  private async reloadConfig(): Promise<void> {
+    const options = this.resolveOptions(this.configPath, undefined);
+    let loaded: PjConfig;
+    const warnings: [ConfigDiagnostic[], string][] = [];
+    try {
+      for (const file of await getConfigFiles(options)) {
+        const diagnostics = await validateConfig(file);
+        const errors = diagnostics.filter((d) => d.severity === "error");
+        if (errors.length > 0) {
+          const details = errors.map((d) => formatConfigDiagnostic(d, file));
+          throw new PjConfigValidationError(
+            `Invalid config in ${file}:\n${details.join("\n")}`,
+            errors
+          );
+        }
+        if (diagnostics.length > 0) {
+          warnings.push([diagnostics, file]);
+        }
+      }
+      loaded = await resolveConfig(options);
+    } catch (error) {
+      this.emit("config:error", error);
+      return;
+    }
+    for (const [diagnostics, file] of warnings) {
+      this.emit("config:warning", diagnostics, file);
+    }
+
+    const previous = this.config;
+    if (isDeepStrictEqual(loaded, previous)) {
+      return;
+    }
+    this.config = loaded;
+    this.invalidate();
+    this.emit("config:changed", { ...loaded }, previous);
+  }
+
+  /**
+   * Report which layer each value of the layered configuration comes from
+   *
+   * @param configPath - Optional path to the user config file
+   * @param options - Set `strict` to reject invalid configs
+   */
+  async explainConfig(
+    configPath?: string,
+    options?: LoadConfigOptions
+  ): Promise<ConfigValueSource[]> {
+    return explainConfig(this.resolveOptions(configPath ?? this.configPath, options));
+  }
+
+  /**
+   * Save configuration to the user config file
+   *
+   * Writes the options this instance was created with, `setConfig` changes
+   * and `config` into the file with `ConfigEditor`, so its comments and
+   * marker objects are kept. Values from the other layers (the system-wide
+   * file, `.pj.yaml`, the profile and `PJ_*` variables) are not copied into
+   * the file.
+   *
+   * @param config - Additional values to save
+   * @param configPath - Optional path to config file (default: the loaded one)
    */
   async saveConfig(config?: Partial<PjConfig>, configPath?: string): Promise<void> {
-    const toSave = config ? { ...this.config, ...config } : this.config;
-    await saveConfig(toSave, configPath);
+    const changes = mergeProfile(this.overrides, config ?? {});
+    await editConfig((editor) => {
+      editor.applyConfig(changes);
+    }, configPath ?? this.configPath);
   }
 
   /**
@@ -172,6 +539,8 @@ export class Pj {
    */
   setConfig(config: Partial<PjConfig>): void {
     this.config = { ...this.config, ...config };
+    this.overrides = { ...this.overrides, ...config };
+    this.invalidate();
   }
 
   /**
@@ -215,42 +584,36 @@ export class Pj {
     return status.version;
   }
 
+  private resolveOptions(
+    configPath: string | undefined,
+    options: LoadConfigOptions | undefined
+  ): ResolveConfigOptions {
+    const resolved: ResolveConfigOptions = { ...options, overrides: this.overrides };
+    if (configPath !== undefined) resolved.configPath = configPath;
+    if (this.profile !== undefined) resolved.profile = this.profile;
+    return resolved;
+  }
+
   /**
    * Merge instance config with provided options
+   *
+   * Explicit options take precedence over the instance config. Options that
+   * have no config equivalent are passed through unchanged.
    */
-  private mergeOptions(options?: DiscoverOptions): DiscoverOptions {
-    const merged: DiscoverOptions = {
+  private mergeOptions<T extends DiscoverOptions>(options?: T): T {
+    return {
+      ...options,
       paths: options?.paths ?? this.config.paths,
       markers: options?.markers ?? this.config.markers,
       excludes: options?.excludes ?? this.config.exclude,
       maxDepth: options?.maxDepth ?? this.config.maxDepth,
       noIgnore: options?.noIgnore ?? this.config.noIgnore,
       nested: options?.nested ?? !this.config.noNested,
-    };
-
-    // Only include optional properties if they have values
-    if (options?.icons !== undefined) {
-      merged.icons = options.icons;
-    }
-    if (options?.shorten !== undefined) {
-      merged.shorten = options.shorten;
-    }
-    if (options?.worktrees !== undefined) {
-      merged.worktrees = options.worktrees;
-    }
-    if (options?.format !== undefined) {
-      merged.format = options.format;
-    }
-    if (options?.noCache !== undefined) {
-      merged.noCache = options.noCache;
-    }
-    if (options?.configPath !== undefined) {
-      merged.configPath = options.configPath;
-    }
-    if (options?.verbose !== undefined) {
-      merged.verbose = options.verbose;
-    }
-
-    return merged;
+      priorities: options?.priorities ?? this.config.priorities,
+      timeoutMs: options?.timeoutMs ?? this.timeoutMs,
+      retry: options?.retry ?? this.retry,
+      projects: options?.projects ?? this.config.projects ?? {},
+      profile: options?.profile ?? this.profile,
+    } as T;
   }
 }
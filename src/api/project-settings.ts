@@ -0,0 +1,148 @@
+import * as path from "node:path";
+
+import type {
+  DiscoverOptions,
+  PjConfig,
+  Project,
+  ProjectSettings,
+  SearchPath,
+} from "./types.js";
+import { expandPath } from "./config.js";
+import { loadFallbackConfig } from "./search-paths.js";
+import { globToRegExpSource, hasGlobMagic, toPosixPath } from "../native/glob.js";
+
+/**
+ * A `projects` config entry with its key compiled to a matcher
+ */
+interface CompiledSettings {
+  matches: (projectPath: string) => boolean;
+  glob: boolean;
+  settings: ProjectSettings;
+}
+
+function compile(key: string, settings: ProjectSettings): CompiledSettings {
+  const expanded = expandPath(key);
+  if (hasGlobMagic(expanded)) {
+    const regex = new RegExp(`^${globToRegExpSource(toPosixPath(expanded))}$`);
+    return {
+      matches: (projectPath) => regex.test(toPosixPath(projectPath)),
+      glob: true,
+      settings,
+    };
+  }
+  const resolved = path.resolve(expanded);
+  return { matches: (projectPath) => projectPath === resolved, glob: false, settings };
+}
+
+function addUnique(
+  target: string[] | undefined,
+  values: string[] | undefined
+): string[] | undefined {
+  if (!values?.length) {
+    return target;
+  }
+  const result = [...(target ?? [])];
+  for (const value of values) {
+    if (!result.includes(value)) {
+      result.push(value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Compile the tags of a search path into an entry matching projects below it
+ */
+function compileSearchPath(entry: SearchPath): CompiledSettings | undefined {
+  if (typeof entry === "string" || !entry.tags?.length) {
+    return undefined;
+  }
+  const expanded = expandPath(entry.path);
+  if (hasGlobMagic(expanded)) {
+    // Projects below any directory the glob matches
+    const source = globToRegExpSource(toPosixPath(path.resolve(expanded)));
+    const regex = new RegExp(`^${source}(?:/.*)?$`);
+    return {
+      matches: (projectPath) => regex.test(toPosixPath(projectPath)),
+      glob: true,
+      settings: { tags: entry.tags },
+    };
+  }
+  const root = path.resolve(expanded);
+  const prefix = root.endsWith(path.sep) ? root : root + path.sep;
+  return {
+    matches: (projectPath) => projectPath === root || projectPath.startsWith(prefix),
+    glob: true,
+    settings: { tags: entry.tags },
+  };
+}
+
+/**
+ * Create a function that applies `projects` config entries to a project
+ *
+ * Every matching entry is applied: aliases and tags are combined, and for the
+ * display name exact paths take precedence over globs, with later entries
+ * winning otherwise. Tags of search paths are added to every project below
+ * them.
+ *
+ * @param projects - Settings by project path or glob
+ * @param paths - Search paths, whose tags are applied
+ * @returns A function returning a copy of the project with `displayName`,
+ *   `aliases` and `tags` set, or the project itself if nothing matches
+ */
+export function createSettingsApplier(
+  projects: Record<string, ProjectSettings>,
+  paths: SearchPath[] = []
+): (project: Project) => Project {
+  const compiled = [
+    ...paths.flatMap((entry) => compileSearchPath(entry) ?? []),
+    ...Object.entries(projects).map(([key, settings]) => compile(key, settings)),
+  ]
+    // Globs first so exact paths override their display names
+    .sort((a, b) => Number(b.glob) - Number(a.glob));
+
+  return (project) => {
+    const matching = compiled.filter((entry) => entry.matches(project.path));
+    if (matching.length === 0) {
+      return project;
+    }
+
+    const result: Project = { ...project };
+    for (const { settings } of matching) {
+      if (settings.name !== undefined) {
+        result.displayName = settings.name;
+      }
+      result.aliases = addUnique(result.aliases, settings.aliases);
+      result.tags = addUnique(result.tags, settings.tags);
+    }
+    return result;
+  };
+}
+
+/**
+ * Create the settings applier for a discovery
+ *
+ * Project settings and search paths from the options take precedence over
+ * the config file.
+ *
+ * @param options - Discovery options
+ * @param config - Config to fall back to (default: `loadFallbackConfig`)
+ */
+export async function resolveSettingsApplier(
+  options?: DiscoverOptions,
+  config?: PjConfig
+): Promise<(project: Project) => Project> {
+  const fallback = config ?? (await loadFallbackConfig(options));
+  return createSettingsApplier(
+    options?.projects ?? fallback?.projects ?? {},
+    options?.paths ?? fallback?.paths
+  );
+}
+
+/**
+ * Check whether a project has every one of the given tags, ignoring case
+ */
+export function hasTags(project: Project, tags: string[]): boolean {
+  const own = new Set((project.tags ?? []).map((t) => t.toLowerCase()));
+  return tags.every((tag) => own.has(tag.toLowerCase()));
+}
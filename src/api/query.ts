@@ -0,0 +1,316 @@
+import * as path from "node:path";
+
+import type {
+  Project,
+  ProjectQuery,
+  ProjectQueryField,
+  ProjectQueryFlag,
+  ProjectQueryTerm,
+} from "./types.js";
+import { PjQueryError } from "./types.js";
+import { expandPath } from "./config.js";
+import { globToRegExpSource, hasGlobMagic, toPosixPath } from "../native/glob.js";
+
+const FIELDS = new Set<string>(["name", "marker", "path", "label", "tag"]);
+
+const FLAGS = new Set<string>([
+  "dirty",
+  "clean",
+  "ahead",
+  "behind",
+  "worktree",
+  "workspace",
+]);
+
+/** Flags that need the project's git status */
+const GIT_FLAGS = new Set<ProjectQueryFlag>(["dirty", "clean", "ahead", "behind"]);
+
+/**
+ * A value read from the query, split on unquoted commas
+ */
+interface ScannedValue {
+  /** The value with quotes removed */
+  text: string;
+  /** Comma-separated alternatives with quotes removed */
+  alternatives: string[];
+  /** Whether any part of the value was quoted */
+  quoted: boolean;
+  /** Offset just past the value */
+  end: number;
+}
+
+function isSpace(ch: string): boolean {
+  return ch === " " || ch === "\t" || ch === "\n" || ch === "\r";
+}
+
+/**
+ * Read a value up to the next unquoted whitespace
+ */
+function scanValue(query: string, start: number): ScannedValue {
+  const alternatives: string[] = [];
+  let text = "";
+  let current = "";
+  let quoted = false;
+  let i = start;
+
+  while (i < query.length && !isSpace(query.charAt(i))) {
+    const ch = query.charAt(i);
+    if (ch === '"') {
+      quoted = true;
+      const open = i;
+      i++;
+      while (i < query.length && query.charAt(i) !== '"') {
+        if (query.charAt(i) === "\\" && i + 1 < query.length) {
+          i++;
+        }
+        text += query.charAt(i);
+        current += query.charAt(i);
+        i++;
+      }
+      if (i >= query.length) {
+        throw new PjQueryError("Unterminated quote", query, open);
+      }
+    } else if (ch === ",") {
+      text += ch;
+      alternatives.push(current);
+      current = "";
+    } else {
+      text += ch;
+      current += ch;
+    }
+    i++;
+  }
+  alternatives.push(current);
+
+  return {
+    text,
+    alternatives: alternatives.filter((a) => a !== ""),
+    quoted,
+    end: i,
+  };
+}
+
+/**
+ * Parse a project query into a typed filter
+ *
+ * A query is a list of whitespace-separated terms, all of which must match:
+ *
+ * - `field:value` matches a project field (`name`, `marker`, `path`,
+ *   `label`, `tag`); `field:a,b` matches either value
+ * - `is:flag` matches a project state (`dirty`, `clean`, `ahead`, `behind`,
+ *   `worktree`, `workspace`); `is:a,b` matches either, and a bare flag
+ *   name is shorthand for `is:flag`
+ * - any other word matches like `name:`, against the project name, display
+ *   name and aliases
+ *
+ * Prefix a term with `-` to exclude matches. Quote values containing spaces,
+ * and quote a bare word to match a flag name as text.
+ *
+ * @example
+ * ```typescript
+ * parseProjectQuery('marker:go.mod name:api path:~/work -worktree is:dirty');
+ * ```
+ *
+ * @throws PjQueryError if the query is malformed
+ */
+export function parseProjectQuery(query: string): ProjectQuery {
+  const terms: ProjectQueryTerm[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    if (isSpace(query.charAt(i))) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = query.charAt(i) === "-";
+    if (negated) {
+      i++;
+      if (i >= query.length || isSpace(query.charAt(i))) {
+        throw new PjQueryError('Expected a term after "-"', query, start);
+      }
+    }
+
+    const key = /^([A-Za-z]+):/.exec(query.slice(i));
+    if (key?.[1]) {
+      const name = key[1].toLowerCase();
+      const valueStart = i + key[0].length;
+      if (name !== "is" && !FIELDS.has(name)) {
+        throw new PjQueryError(`Unknown field "${key[1]}"`, query, i);
+      }
+
+      const value = scanValue(query, valueStart);
+      if (value.alternatives.length === 0) {
+        throw new PjQueryError(`Missing value for "${key[1]}"`, query, valueStart);
+      }
+
+      if (name === "is") {
+        for (const flag of value.alternatives) {
+          if (!FLAGS.has(flag)) {
+            throw new PjQueryError(`Unknown flag "${flag}"`, query, valueStart);
+          }
+        }
+        terms.push({
+          type: "flag",
+          flags: value.alternatives as ProjectQueryFlag[],
+          negated,
+        });
+      } else {
+        terms.push({
+          type: "field",
+          field: name as ProjectQueryField,
+          values: value.alternatives,
+          negated,
+        });
+      }
+      i = value.end;
+      continue;
+    }
+
+    const value = scanValue(query, i);
+    if (!value.quoted && FLAGS.has(value.text)) {
+      terms.push({ type: "flag", flags: [value.text as ProjectQueryFlag], negated });
+    } else if (value.text) {
+      terms.push({ type: "text", value: value.text, negated });
+    }
+    i = value.end;
+  }
+
+  return { source: query, terms };
+}
+
+/**
+ * Check whether a query needs git status to be evaluated
+ */
+export function queryNeedsGit(query: ProjectQuery): boolean {
+  return query.terms.some(
+    (t) => t.type === "flag" && t.flags.some((flag) => GIT_FLAGS.has(flag))
+  );
+}
+
+/**
+ * Build a case-insensitive matcher for a name-like value
+ */
+function textMatcher(value: string): (text: string) => boolean {
+  if (hasGlobMagic(value)) {
+    const regex = new RegExp(`^${globToRegExpSource(value)}$`, "i");
+    return (text) => regex.test(text);
+  }
+  const needle = value.toLowerCase();
+  return (text) => text.toLowerCase().includes(needle);
+}
+
+/**
+ * Build a matcher for a path value
+ */
+function pathMatcher(value: string): (projectPath: string) => boolean {
+  const expanded = expandPath(value);
+
+  if (path.isAbsolute(expanded)) {
+    if (hasGlobMagic(expanded)) {
+      const regex = new RegExp(`^${globToRegExpSource(toPosixPath(expanded))}$`);
+      return (projectPath) => regex.test(toPosixPath(projectPath));
+    }
+    const dir = path.resolve(expanded);
+    return (projectPath) =>
+      projectPath === dir ||
+      projectPath.startsWith(dir.endsWith(path.sep) ? dir : dir + path.sep);
+  }
+
+  // Relative values match whole path segments anywhere in the path
+  const regex = new RegExp(
+    `(?:^|/)${globToRegExpSource(toPosixPath(expanded))}(?:/|$)`,
+    "i"
+  );
+  return (projectPath) => regex.test(toPosixPath(projectPath));
+}
+
+function fieldMatcher(
+  field: ProjectQueryField,
+  value: string
+): (project: Project) => boolean {
+  switch (field) {
+    case "name": {
+      const match = textMatcher(value);
+      return (p) =>
+        match(p.name) ||
+        (p.displayName !== undefined && match(p.displayName)) ||
+        (p.aliases ?? []).some(match);
+    }
+    case "label": {
+      const match = textMatcher(value);
+      return (p) => match(p.label ?? "");
+    }
+    case "marker": {
+      const regex = hasGlobMagic(value)
+        ? new RegExp(`^${globToRegExpSource(value)}$`)
+        : undefined;
+      const match = (marker: string): boolean =>
+        regex ? regex.test(marker) : marker === value;
+      return (p) => match(p.marker) || (p.markers ?? []).some(match);
+    }
+    case "path": {
+      const match = pathMatcher(value);
+      return (p) => match(p.path);
+    }
+    case "tag": {
+      const regex = new RegExp(`^${globToRegExpSource(value)}$`, "i");
+      return (p) => (p.tags ?? []).some((tag) => regex.test(tag));
+    }
+  }
+}
+
+function flagMatcher(flag: ProjectQueryFlag): (project: Project) => boolean {
+  switch (flag) {
+    case "dirty":
+      return (p) => p.git?.dirty === true;
+    case "clean":
+      return (p) => p.git?.dirty === false;
+    case "ahead":
+      return (p) => (p.git?.ahead ?? 0) > 0;
+    case "behind":
+      return (p) => (p.git?.behind ?? 0) > 0;
+    case "worktree":
+      return (p) => p.isWorktree === true;
+    case "workspace":
+      return (p) => p.workspaceRoot !== undefined;
+  }
+}
+
+function termMatcher(term: ProjectQueryTerm): (project: Project) => boolean {
+  switch (term.type) {
+    case "field": {
+      const matchers = term.values.map((v) => fieldMatcher(term.field, v));
+      return (p) => matchers.some((match) => match(p));
+    }
+    case "flag": {
+      const matchers = term.flags.map(flagMatcher);
+      return (p) => matchers.some((match) => match(p));
+    }
+    case "text":
+      return fieldMatcher("name", term.value);
+  }
+}
+
+/**
+ * Create a predicate that tests projects against a query
+ *
+ * Git flags are evaluated against the project's `git` field, so projects
+ * should be enriched with `enrich: ["git"]` when the query uses them (see
+ * `queryProjects`, which does this automatically).
+ *
+ * @param query - Query string or parsed query
+ * @throws PjQueryError if a query string is malformed
+ */
+export function createProjectFilter(
+  query: string | ProjectQuery
+): (project: Project) => boolean {
+  const parsed = typeof query === "string" ? parseProjectQuery(query) : query;
+  const matchers = parsed.terms.map((term) => {
+    const match = termMatcher(term);
+    return (p: Project): boolean => match(p) !== term.negated;
+  });
+
+  return (project) => matchers.every((match) => match(project));
+}
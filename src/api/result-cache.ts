@@ -0,0 +1,197 @@
+import { PjAbortError } from "./types.js";
+
+/**
+ * A cached result and when it was loaded
+ */
+interface CacheEntry<T> {
+  value: T;
+  loadedAt: number;
+}
+
+/**
+ * A load shared by every caller waiting for the same key
+ */
+interface PendingLoad<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  /** Callers that can still abort; the load is cancelled when all have */
+  waiters: number;
+}
+
+/**
+ * Options for a single cache lookup
+ */
+export interface CacheLookupOptions {
+  /** Cancels this caller's wait; the load itself is cancelled once no caller is left */
+  signal?: AbortSignal | undefined;
+  /** Skip cached results and load a fresh one */
+  refresh?: boolean | undefined;
+}
+
+/**
+ * In-memory cache of async results with request coalescing
+ *
+ * Concurrent lookups for the same key share a single load. Results expire
+ * after the TTL; with stale-while-revalidate, an expired result is returned
+ * immediately while a fresh one loads in the background.
+ */
+export class ResultCache<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>();
+  private readonly pending = new Map<string, PendingLoad<T>>();
+  /** Incremented on invalidation so loads started earlier aren't stored */
+  private generation = 0;
+
+  /**
+   * Create a result cache
+   *
+   * @param getTtlMs - Returns the current time-to-live in milliseconds; 0
+   *   disables caching but still coalesces concurrent loads
+   * @param staleWhileRevalidate - Return expired results while refreshing
+   */
+  constructor(
+    private readonly getTtlMs: () => number,
+    private readonly staleWhileRevalidate = false
+  ) {}
+
+  /**
+   * Get the result for a key, loading it if needed
+   *
+   * @param key - Cache key
+   * @param load - Loads the result; receives a signal that is aborted when
+   *   every waiting caller has aborted
+   * @param options - Lookup options
+   * @throws PjAbortError if `options.signal` is aborted
+   */
+  async get(
+    key: string,
+    load: (signal: AbortSignal) => Promise<T>,
+    options?: CacheLookupOptions
+  ): Promise<T> {
+    const entry = this.entries.get(key);
+    if (entry && !options?.refresh) {
+      if (Date.now() - entry.loadedAt < this.getTtlMs()) {
+        return entry.value;
+      }
+      if (this.staleWhileRevalidate) {
+        // The background refresh has no caller that could abort it
+        const refresh = this.start(key, load);
+        refresh.waiters++;
+        refresh.promise.catch(() => undefined);
+        return entry.value;
+      }
+    }
+
+    return this.wait(key, this.start(key, load), options?.signal);
+  }
+
+  /**
+   * Remove cached results
+   *
+   * Loads already in flight still resolve for their callers, but their
+   * results are not stored.
+   *
+   * @param key - Key to remove (removes every key if omitted)
+   */
+  invalidate(key?: string): void {
+    this.generation++;
+    if (key === undefined) {
+      this.entries.clear();
+      this.pending.clear();
+    } else {
+      this.entries.delete(key);
+      this.pending.delete(key);
+    }
+  }
+
+  /**
+   * Number of cached results, including expired ones
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Start loading a key, or join the load already in flight
+   */
+  private start(
+    key: string,
+    load: (signal: AbortSignal) => Promise<T>
+  ): PendingLoad<T> {
+    const existing = this.pending.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const controller = new AbortController();
+    const generation = this.generation;
+    const pendingLoad: PendingLoad<T> = {
+      controller,
+      waiters: 0,
+      promise: (async () => {
+        try {
+          const value = await load(controller.signal);
+          if (generation === this.generation && this.getTtlMs() > 0) {
+            this.entries.set(key, { value, loadedAt: Date.now() });
+          }
+          return value;
+        } finally {
+          this.forget(key, controller);
+        }
+      })(),
+    };
+    this.pending.set(key, pendingLoad);
+
+    return pendingLoad;
+  }
+
+  /**
+   * Stop sharing a load with new callers
+   */
+  private forget(key: string, controller: AbortController): void {
+    if (this.pending.get(key)?.controller === controller) {
+      this.pending.delete(key);
+    }
+  }
+
+  /**
+   * Wait for a load on behalf of one caller
+   */
+  private wait(
+    key: string,
+    pendingLoad: PendingLoad<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    if (!signal) {
+      pendingLoad.waiters++;
+      return pendingLoad.promise;
+    }
+    if (signal.aborted) {
+      return Promise.reject(new PjAbortError("The operation was aborted", signal.reason));
+    }
+
+    pendingLoad.waiters++;
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = (): void => {
+        reject(new PjAbortError("The operation was aborted", signal.reason));
+        pendingLoad.waiters--;
+        if (pendingLoad.waiters === 0) {
+          // Nobody is left waiting, so later callers start a fresh load
+          this.forget(key, pendingLoad.controller);
+          pendingLoad.controller.abort(signal.reason);
+        }
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+
+      pendingLoad.promise.then(
+        (value) => {
+          signal.removeEventListener("abort", onAbort);
+          resolve(value);
+        },
+        (error: unknown) => {
+          signal.removeEventListener("abort", onAbort);
+          reject(error instanceof Error ? error : new Error(String(error)));
+        }
+      );
+    });
+  }
+}
@@ -0,0 +1,157 @@
+import type { DiscoverOptions, PjConfig, SearchPath, SearchPathConfig } from "./types.js";
+import { PjConfigError } from "./types.js";
+import { expandPath, expandSearchPaths, loadConfig } from "./config.js";
+import { hasGlobMagic } from "../native/glob.js";
+
+/**
+ * Get the directory of a search path entry
+ */
+export function searchPathOf(entry: SearchPath): string {
+  return typeof entry === "string" ? entry : entry.path;
+}
+
+/**
+ * Check whether a search path entry overrides any discovery setting
+ *
+ * Tags don't count, since they are applied after discovery.
+ */
+function hasOverrides(entry: SearchPath): entry is SearchPathConfig {
+  return (
+    typeof entry !== "string" &&
+    (entry.maxDepth !== undefined ||
+      entry.markers !== undefined ||
+      entry.exclude !== undefined ||
+      entry.noNested !== undefined)
+  );
+}
+
+/**
+ * Get the discovery options for the paths sharing one set of overrides
+ */
+function applyOverrides(
+  options: DiscoverOptions,
+  entry: SearchPath
+): Omit<DiscoverOptions, "paths"> {
+  if (!hasOverrides(entry)) {
+    return options;
+  }
+  const result: Omit<DiscoverOptions, "paths"> = { ...options };
+  if (entry.maxDepth !== undefined) result.maxDepth = entry.maxDepth;
+  if (entry.markers !== undefined) result.markers = entry.markers;
+  if (entry.exclude !== undefined) result.excludes = entry.exclude;
+  if (entry.noNested !== undefined) result.nested = !entry.noNested;
+  return result;
+}
+
+/**
+ * Split a discovery into one discovery per distinct set of path settings
+ *
+ * The binary only takes global settings, so paths with their own
+ * `maxDepth`, `markers`, `exclude` or `noNested` are searched separately.
+ * Paths with the same effective settings share a discovery. Every returned
+ * option set has plain string paths; without per-path settings the options
+ * are returned as the only entry.
+ */
+export function partitionSearchPaths(options?: DiscoverOptions): DiscoverOptions[] {
+  const paths = options?.paths;
+  if (!paths?.some(hasOverrides)) {
+    return [paths ? { ...options, paths: paths.map(searchPathOf) } : { ...options }];
+  }
+
+  const partitions = new Map<string, DiscoverOptions & { paths: string[] }>();
+  for (const entry of paths) {
+    const settings = applyOverrides(options ?? {}, entry);
+    const key = JSON.stringify([
+      settings.maxDepth,
+      settings.markers,
+      settings.excludes,
+      settings.nested,
+    ]);
+    const existing = partitions.get(key);
+    if (existing) {
+      existing.paths.push(searchPathOf(entry));
+    } else {
+      partitions.set(key, { ...settings, paths: [searchPathOf(entry)] });
+    }
+  }
+  return [...partitions.values()];
+}
+
+/**
+ * Load the config a discovery falls back to for settings its options leave out
+ *
+ * Callers passing explicit `paths` still get the config's `projects`
+ * section, but don't depend on the file for their search paths, so a config
+ * that can't be read or parsed is ignored rather than failing their
+ * discovery.
+ *
+ * @returns The config, or undefined when explicit paths are given and the
+ *   config can't be loaded
+ * @throws PjConfigError if the config can't be loaded and no paths are given
+ */
+export async function loadFallbackConfig(
+  options?: DiscoverOptions
+): Promise<PjConfig | undefined> {
+  if (options?.paths === undefined) {
+    return loadConfig(options?.configPath);
+  }
+  try {
+    return await loadConfig(options.configPath);
+  } catch (error) {
+    if (error instanceof PjConfigError) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check whether a search path needs expanding or settings that only Node
+ * applies
+ */
+function needsResolving(entry: SearchPath): boolean {
+  const p = searchPathOf(entry);
+  return typeof entry !== "string" || p.includes("$") || hasGlobMagic(p);
+}
+
+/**
+ * Expand the search paths and excludes of a discovery before pj sees them
+ *
+ * Environment variables, ~ and globs in `paths` are expanded with
+ * `expandSearchPaths`, and variables and ~ in `excludes`. Without `paths` or
+ * `excludes`, pj reads them from the config file itself, which only works
+ * for plain values; config paths with settings, variables or globs, and
+ * config excludes with variables, are copied into the options so they can
+ * be expanded.
+ *
+ * @param options - Discovery options
+ * @param config - Config to fall back to (default: `loadFallbackConfig`)
+ */
+export async function resolveSearchPaths(
+  options?: DiscoverOptions,
+  config?: PjConfig
+): Promise<DiscoverOptions | undefined> {
+  let paths = options?.paths;
+  let excludes = options?.excludes;
+  const fallback = config ?? (await loadFallbackConfig(options));
+  if (fallback) {
+    if (paths === undefined && fallback.paths.some(needsResolving)) {
+      paths = fallback.paths;
+    }
+    if (excludes === undefined && fallback.exclude.some((e) => e.includes("$"))) {
+      excludes = fallback.exclude;
+    }
+  }
+  if (paths === undefined && excludes === undefined) {
+    return options;
+  }
+
+  const resolved: DiscoverOptions = { ...options };
+  if (paths !== undefined) {
+    resolved.paths = (await expandSearchPaths(paths)).paths;
+  }
+  if (excludes !== undefined) {
+    resolved.excludes = excludes.map((pattern) => expandPath(pattern));
+  }
+  return resolved;
+}
@@ -0,0 +1,227 @@
+import * as path from "node:path";
+
+import type {
+  Project,
+  ProjectTreeDirectory,
+  ProjectTreeNode,
+  ProjectTreeProject,
+  ProjectTreeRoot,
+} from "./types.js";
+import { expandPath } from "./config.js";
+
+/**
+ * Check whether a path is equal to or below a directory
+ */
+function isWithin(child: string, dir: string): boolean {
+  return (
+    child === dir || child.startsWith(dir.endsWith(path.sep) ? dir : dir + path.sep)
+  );
+}
+
+/**
+ * Sort children by name, recursively
+ */
+function sortChildren(nodes: ProjectTreeNode[]): void {
+  nodes.sort((a, b) => a.name.localeCompare(b.name) || a.path.localeCompare(b.path));
+  for (const node of nodes) {
+    sortChildren(node.children);
+  }
+}
+
+/**
+ * Build a tree from discovered projects
+ *
+ * Each project is placed under the deepest search path containing it, with a
+ * directory node for every directory in between. Projects inside other
+ * projects become their children (with `nested` set), and worktrees are
+ * listed under their parent repository when it was discovered. Projects
+ * outside every search path get a root for their parent directory. Children
+ * are sorted by name.
+ *
+ * @param projects - Discovered projects
+ * @param roots - Configured search paths (~ is expanded)
+ * @returns One root per search path, in the order given
+ */
+export function buildProjectTree(
+  projects: Project[],
+  roots: string[]
+): ProjectTreeRoot[] {
+  const rootNodes: ProjectTreeRoot[] = [];
+  // Nodes that can hold children, keyed by path
+  const containers = new Map<string, ProjectTreeNode>();
+
+  const addRoot = (name: string, rootPath: string): ProjectTreeRoot => {
+    const root: ProjectTreeRoot = { type: "root", path: rootPath, name, children: [] };
+    rootNodes.push(root);
+    containers.set(rootPath, root);
+    return root;
+  };
+
+  for (const root of roots) {
+    const rootPath = path.resolve(expandPath(root));
+    if (!containers.has(rootPath)) {
+      addRoot(root, rootPath);
+    }
+  }
+
+  const findRoot = (projectPath: string): ProjectTreeRoot | undefined => {
+    let best: ProjectTreeRoot | undefined;
+    for (const root of rootNodes) {
+      const deeper = !best || root.path.length > best.path.length;
+      if (deeper && isWithin(projectPath, root.path)) {
+        best = root;
+      }
+    }
+    return best;
+  };
+
+  /** Get the node for a directory, creating directory nodes down from the root */
+  const ensureContainer = (dir: string, root: ProjectTreeRoot): ProjectTreeNode => {
+    const existing = containers.get(dir);
+    if (existing) {
+      return existing;
+    }
+    const parent = ensureContainer(path.dirname(dir), root);
+    const node: ProjectTreeDirectory = {
+      type: "directory",
+      path: dir,
+      name: path.basename(dir),
+      children: [],
+    };
+    parent.children.push(node);
+    containers.set(dir, node);
+    return node;
+  };
+
+  /** Whether any container between the root and a directory is a project */
+  const insideProject = (dir: string, root: ProjectTreeRoot): boolean => {
+    let current = dir;
+    while (current !== root.path && isWithin(current, root.path)) {
+      if (containers.get(current)?.type === "project") {
+        return true;
+      }
+      current = path.dirname(current);
+    }
+    return containers.get(root.path)?.type === "project";
+  };
+
+  const placeProject = (project: Project): void => {
+    const dir = path.dirname(project.path);
+    const root = findRoot(project.path) ?? addRoot(dir, dir);
+
+    // A project at the search path itself sits directly under its root
+    const parent = project.path === root.path ? root : ensureContainer(dir, root);
+
+    const node: ProjectTreeProject = {
+      type: "project",
+      path: project.path,
+      name: project.name,
+      project,
+      nested: project.path !== root.path && insideProject(dir, root),
+      children: [],
+    };
+    parent.children.push(node);
+    containers.set(project.path, node);
+  };
+
+  // Place shallower projects first so nested projects find their parents
+  const ordered = [...projects].sort((a, b) => a.path.length - b.path.length);
+  const worktrees: Project[] = [];
+
+  for (const project of ordered) {
+    if (project.isWorktree && project.worktreeParent !== undefined) {
+      worktrees.push(project);
+    } else {
+      placeProject(project);
+    }
+  }
+
+  for (const project of worktrees) {
+    const parent = containers.get(project.worktreeParent ?? "");
+    if (parent?.type === "project") {
+      const node: ProjectTreeNode = {
+        type: "worktree",
+        path: project.path,
+        name: project.name,
+        project,
+        children: [],
+      };
+      parent.children.push(node);
+      containers.set(project.path, node);
+    } else {
+      placeProject(project);
+    }
+  }
+
+  for (const root of rootNodes) {
+    sortChildren(root.children);
+  }
+
+  return rootNodes;
+}
+
+/**
+ * Visit every node of a tree depth-first, parents before children
+ *
+ * Return `false` from the visitor to skip a node's children.
+ *
+ * @param nodes - Nodes to walk, usually the roots from `buildProjectTree`
+ * @param visitor - Called with each node, its depth and its parent
+ */
+export function walkProjectTree(
+  nodes: ProjectTreeNode[],
+  visitor: (
+    node: ProjectTreeNode,
+    depth: number,
+    parent: ProjectTreeNode | undefined
+  ) => unknown
+): void {
+  const walk = (
+    children: ProjectTreeNode[],
+    depth: number,
+    parent: ProjectTreeNode | undefined
+  ): void => {
+    for (const node of children) {
+      if (visitor(node, depth, parent) !== false) {
+        walk(node.children, depth + 1, node);
+      }
+    }
+  };
+  walk(nodes, 0, undefined);
+}
+
+/**
+ * List every node of a tree depth-first, parents before children
+ */
+export function flattenProjectTree(nodes: ProjectTreeNode[]): ProjectTreeNode[] {
+  const flat: ProjectTreeNode[] = [];
+  walkProjectTree(nodes, (node) => {
+    flat.push(node);
+  });
+  return flat;
+}
+
+/**
+ * Keep only the nodes matching a predicate, plus their ancestors
+ *
+ * Directory nodes left without children are removed; roots are always kept.
+ * The input tree is not modified.
+ *
+ * @param nodes - Nodes to prune
+ * @param keep - Returns true for nodes to keep
+ */
+export function pruneProjectTree<T extends ProjectTreeNode>(
+  nodes: T[],
+  keep: (node: ProjectTreeNode) => boolean
+): T[] {
+  const pruned: T[] = [];
+
+  for (const node of nodes) {
+    const children = pruneProjectTree(node.children, keep);
+    if (node.type === "root" || keep(node) || children.length > 0) {
+      pruned.push({ ...node, children });
+    }
+  }
+
+  return pruned;
+}
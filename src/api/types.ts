@@ -26,14 +26,72 @@ export interface Project {
   isWorktree: boolean | undefined;
   /** Path to the parent repository if this is a worktree */
   worktreeParent: string | undefined;
+  /** Package metadata from the project's manifest (with `enrich: ["manifest"]`) */
+  metadata?: ProjectMetadata | undefined;
+  /** Git working tree status (with `enrich: ["git"]`) */
+  git?: GitStatus | undefined;
+  /**
+   * Every configured marker present in the project, highest priority first
+   * (with `enrich: ["markers"]`)
+   */
+  markers?: string[];
+  /**
+   * Path of the monorepo root project when this project is a workspace member
+   * (with `workspaces: true`)
+   */
+  workspaceRoot?: string | undefined;
+  /** Display name from the `projects` section of the config */
+  displayName?: string | undefined;
+  /** Alternative names from the `projects` section of the config */
+  aliases?: string[] | undefined;
+  /** Tags from the `projects` section of the config */
+  tags?: string[] | undefined;
+  /** This project's entry in its repository's worktree list (with `enrich: ["worktrees"]`) */
+  worktree?: GitWorktree | undefined;
+  /**
+   * Every worktree of the project's repository, including this one
+   * (with `enrich: ["worktrees"]`)
+   */
+  worktrees?: GitWorktree[] | undefined;
+}
+
+/**
+ * Enrichment steps that add optional data to discovered projects
+ *
+ * - "manifest": read the project's manifest into `metadata`
+ * - "git": read the repository's working tree status into `git`
+ * - "markers": list every configured marker present in `markers`
+ * - "worktrees": list the repository's git worktrees in `worktree` and
+ *   `worktrees`
+ */
+export type Enrichment = "manifest" | "git" | "markers" | "worktrees";
+
+/**
+ * Package metadata declared in a project's manifest file
+ */
+export interface ProjectMetadata {
+  /** Manifest file the metadata was read from (e.g., "package.json") */
+  manifest: string;
+  /** Package ecosystem */
+  ecosystem: "node" | "rust" | "go" | "python" | "nix";
+  /** Primary language (e.g., "TypeScript", "Rust") */
+  language: string;
+  /** Declared package name (Go module path for go.mod) */
+  name: string | undefined;
+  /** Declared package version */
+  version: string | undefined;
+  /** Declared package description */
+  description: string | undefined;
+  /** Declared license (SPDX expression when available) */
+  license: string | undefined;
 }
 
 /**
  * Options for project discovery
  */
 export interface DiscoverOptions {
-  /** Paths to search for projects */
-  paths?: string[];
+  /** Paths to search for projects, optionally with their own settings */
+  paths?: SearchPath[];
   /** Project marker files/directories to look for */
   markers?: string[];
   /** Patterns to exclude from search */
@@ -50,8 +108,11 @@ export interface DiscoverOptions {
   icons?: boolean;
   /** Replace home directory with ~ in output paths */
   shorten?: boolean;
-  /** Sort order for results: "alpha", "priority" (default), or "label" */
-  sort?: "alpha" | "priority" | "label";
+  /**
+   * Sort order for results: "alpha", "priority" (default), "label", or
+   * "frecency" (ranked in Node using the visit history from recordVisit)
+   */
+  sort?: "alpha" | "priority" | "label" | "frecency";
   /** Sort direction: "asc" or "desc" (defaults vary by sort mode) */
   sortDirection?: "asc" | "desc";
   /** Control git worktree discovery: true = actively discover worktrees, false = filter out worktrees, undefined = default behavior */
@@ -62,14 +123,484 @@ export interface DiscoverOptions {
   configPath?: string;
   /** Enable verbose/debug output */
   verbose?: boolean;
+  /**
+   * Discovery engine: "binary" runs pj, "native" walks the filesystem in Node,
+   * "auto" (default) uses the binary and falls back to native when the binary
+   * can't be obtained
+   */
+  engine?: "auto" | "binary" | "native";
+  /** Marker priorities (higher = more specific); used by the native engine */
+  priorities?: Record<string, number>;
+  /** Enrichment steps to run on discovered projects */
+  enrich?: Enrichment[];
+  /** Maximum number of projects enriched concurrently (default 8) */
+  concurrency?: number;
+  /**
+   * Expand monorepo workspaces (npm/yarn/pnpm, Cargo, go.work, uv and poetry)
+   * into member projects listed after their root
+   */
+  workspaces?: boolean;
+  /**
+   * Cancels discovery, killing the pj process or stopping the native walk;
+   * the operation rejects with PjAbortError
+   */
+  signal?: AbortSignal;
+  /** Time limit for each pj run in milliseconds (default 60000) */
+  timeoutMs?: number;
+  /** Retry policy for transient pj failures (default: no retries) */
+  retry?: RetryPolicy;
+  /**
+   * Display names, aliases and tags by project path or glob (default: the
+   * `projects` section of the config file)
+   */
+  projects?: Record<string, ProjectSettings>;
+  /** Only include projects with all of these tags */
+  tags?: string[];
+  /**
+   * Config profile the options belong to; pj keeps a separate cache for each
+   * profile. Set by `Pj` from its `profile` option; the profile's settings
+   * are applied when the config is loaded, not here.
+   */
+  profile?: string;
+}
+
+/**
+ * User metadata attached to projects in the `projects` section of the config
+ *
+ * Keys of that section are project paths or globs (e.g., `~/oss/*`); `~` is
+ * expanded.
+ */
+export interface ProjectSettings {
+  /** Display name, set as `displayName` */
+  name?: string;
+  /** Alternative names `findProject` resolves to this project */
+  aliases?: string[];
+  /** Tags for filtering and grouping */
+  tags?: string[];
+}
+
+/**
+ * Options for creating a Pj instance
+ *
+ * Config fields override the defaults; `timeoutMs` and `retry` apply to every
+ * pj run unless overridden per call.
+ */
+export interface PjOptions extends Partial<PjConfig> {
+  /** Time limit for each pj run in milliseconds (default 60000) */
+  timeoutMs?: number;
+  /** Retry policy for transient pj failures */
+  retry?: RetryPolicy;
+  /**
+   * Cache discovery results in memory for `cacheTTL` seconds, sharing one pj
+   * run between concurrent identical calls (default false)
+   */
+  resultCache?: boolean;
+  /**
+   * Return expired cached results immediately while refreshing them in the
+   * background (default false)
+   */
+  staleWhileRevalidate?: boolean;
+  /**
+   * Reload the config whenever one of its files changes, as with
+   * `watchConfig()` (default false)
+   */
+  autoReload?: boolean;
+  /**
+   * Profile from the `profiles` section of the config applied by
+   * `loadConfig()` (default: the PJ_PROFILE environment variable)
+   */
+  profile?: string;
+}
+
+/**
+ * Options for watching the config files of a Pj instance
+ */
+export interface WatchConfigOptions {
+  /** User config file (defaults to the last one loaded, or the pj config path) */
+  configPath?: string;
+  /** Milliseconds to wait for changes to settle before reloading (default 100) */
+  debounceMs?: number;
+}
+
+/**
+ * Retry policy for pj execution
+ *
+ * By default only timeouts are treated as transient. Retries wait
+ * `backoffMs * backoffFactor ^ (attempt - 1)`, capped at `maxBackoffMs`.
+ */
+export interface RetryPolicy {
+  /** Total number of attempts, including the first (default 1) */
+  attempts?: number;
+  /** Delay before the first retry in milliseconds (default 200) */
+  backoffMs?: number;
+  /** Multiplier applied to the delay after each retry (default 2) */
+  backoffFactor?: number;
+  /** Upper bound for the delay in milliseconds (default 5000) */
+  maxBackoffMs?: number;
+  /** Retry when pj times out (default true) */
+  retryOnTimeout?: boolean;
+  /** pj exit codes that count as transient (default none) */
+  exitCodes?: number[];
+  /**
+   * Decide whether a failure is transient, replacing `retryOnTimeout` and
+   * `exitCodes`; aborted runs are never retried
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * Options controlling how the pj binary is run
+ */
+export interface ExecutionOptions {
+  /** Cancels the run; the operation rejects with PjAbortError */
+  signal?: AbortSignal | undefined;
+  /** Time limit for each attempt in milliseconds (default 60000) */
+  timeoutMs?: number | undefined;
+  /** Retry policy for transient failures */
+  retry?: RetryPolicy | undefined;
+  /** Config profile whose separate pj cache to use */
+  profile?: string | undefined;
+  /** pj binary to run (default: resolved by the binary manager) */
+  binaryPath?: string | undefined;
+}
+
+/**
+ * Tool whose configuration declares a monorepo workspace
+ */
+export type WorkspaceTool = "npm" | "pnpm" | "cargo" | "go" | "uv" | "poetry";
+
+/**
+ * A member package declared by a monorepo workspace
+ */
+export interface WorkspaceMember {
+  /** Absolute path to the member directory */
+  path: string;
+  /** Manifest identifying the member (e.g., "package.json") */
+  marker: string;
+  /** Tool whose workspace declares the member */
+  tool: WorkspaceTool;
+}
+
+/**
+ * A configured search path at the top of a project tree
+ */
+export interface ProjectTreeRoot {
+  type: "root";
+  /** Absolute path of the search path */
+  path: string;
+  /** The search path as configured (e.g., "~/code") */
+  name: string;
+  children: ProjectTreeNode[];
+}
+
+/**
+ * A directory between a search path and the projects below it
+ */
+export interface ProjectTreeDirectory {
+  type: "directory";
+  path: string;
+  /** Directory name */
+  name: string;
+  children: ProjectTreeNode[];
+}
+
+/**
+ * A project in a project tree
+ */
+export interface ProjectTreeProject {
+  type: "project";
+  path: string;
+  /** Project name */
+  name: string;
+  project: Project;
+  /** Whether the project is inside another project */
+  nested: boolean;
+  /** Nested projects, worktrees and the directories leading to them */
+  children: ProjectTreeNode[];
+}
+
+/**
+ * A git worktree, listed under the repository it belongs to
+ */
+export interface ProjectTreeWorktree {
+  type: "worktree";
+  path: string;
+  /** Project name */
+  name: string;
+  project: Project;
+  children: ProjectTreeNode[];
+}
+
+/**
+ * A node in a project tree
+ */
+export type ProjectTreeNode =
+  | ProjectTreeRoot
+  | ProjectTreeDirectory
+  | ProjectTreeProject
+  | ProjectTreeWorktree;
+
+/**
+ * Options for finding projects by name or pattern
+ */
+export interface FindProjectsOptions extends DiscoverOptions {
+  /** Use fuzzy matching and order results by match score */
+  fuzzy?: boolean;
+  /** Only git repositories with (true) or without (false) uncommitted changes */
+  dirty?: boolean;
+  /** Only git repositories with (true) or without (false) unpushed commits */
+  ahead?: boolean;
+  /** Only git repositories that are (true) or aren't (false) behind upstream */
+  behind?: boolean;
+}
+
+/**
+ * Project fields that can be matched by a query
+ *
+ * - "name": case-insensitive substring of the project name, display name or
+ *   an alias
+ * - "marker": the project's marker
+ * - "path": projects at or below a directory (~ is expanded); relative
+ *   values match whole path segments anywhere in the path
+ * - "label": case-insensitive substring of the marker label
+ * - "tag": one of the project's tags, ignoring case
+ *
+ * Values containing glob syntax match the whole field instead.
+ */
+export type ProjectQueryField = "name" | "marker" | "path" | "label" | "tag";
+
+/**
+ * Project states that can be matched by a query
+ *
+ * "dirty", "clean", "ahead" and "behind" only match git repositories.
+ */
+export type ProjectQueryFlag =
+  | "dirty"
+  | "clean"
+  | "ahead"
+  | "behind"
+  | "worktree"
+  | "workspace";
+
+/**
+ * A single term of a parsed project query
+ *
+ * Terms with `negated` set exclude the projects they match.
+ */
+export type ProjectQueryTerm =
+  | {
+      type: "field";
+      field: ProjectQueryField;
+      /** Alternatives; the term matches if any of them does */
+      values: string[];
+      negated: boolean;
+    }
+  | {
+      type: "flag";
+      /** Alternatives; the term matches if any of them does */
+      flags: ProjectQueryFlag[];
+      negated: boolean;
+    }
+  | { type: "text"; value: string; negated: boolean };
+
+/**
+ * A parsed project query; projects must match every term
+ */
+export interface ProjectQuery {
+  /** The query string the terms were parsed from */
+  source: string;
+  terms: ProjectQueryTerm[];
+}
+
+/**
+ * Git working tree status of a project
+ */
+export interface GitStatus {
+  /** Checked-out branch, or undefined when HEAD is detached */
+  branch: string | undefined;
+  /** SHA of HEAD, or undefined before the first commit */
+  head: string | undefined;
+  /** Whether HEAD is detached */
+  detached: boolean;
+  /** Whether there are staged, modified, conflicted or untracked files */
+  dirty: boolean;
+  /** Number of files with staged changes */
+  staged: number;
+  /** Number of files with unstaged changes */
+  modified: number;
+  /** Number of files with merge conflicts */
+  conflicted: number;
+  /** Number of untracked files */
+  untracked: number;
+  /** Upstream branch (e.g., "origin/main"), if one is configured */
+  upstream: string | undefined;
+  /** Commits ahead of upstream, if one is configured */
+  ahead: number | undefined;
+  /** Commits behind upstream, if one is configured */
+  behind: number | undefined;
+  /** Most recent commit on HEAD */
+  lastCommit: GitCommit | undefined;
+}
+
+/**
+ * A git worktree, as reported by `git worktree list --porcelain`
+ */
+export interface GitWorktree {
+  /** Absolute path to the worktree */
+  path: string;
+  /** SHA of the checked-out commit, or undefined before the first commit */
+  head: string | undefined;
+  /** Checked-out branch (e.g., "main"), or undefined when detached or bare */
+  branch: string | undefined;
+  /** Whether this is the main worktree of the repository */
+  main: boolean;
+  /** Whether this is a bare repository */
+  bare: boolean;
+  /** Whether HEAD is detached */
+  detached: boolean;
+  /** Whether the worktree is locked against pruning */
+  locked: boolean;
+  /** Reason given when the worktree was locked */
+  lockReason: string | undefined;
+  /** Whether `git worktree prune` would remove the worktree */
+  prunable: boolean;
+  /** Why the worktree is prunable (e.g., its directory no longer exists) */
+  prunableReason: string | undefined;
+}
+
+/**
+ * A remote configured in a git repository
+ */
+export interface GitRemote {
+  /** Remote name (e.g., "origin") */
+  name: string;
+  /** Fetch URL as configured */
+  url: string;
+}
+
+/**
+ * Projects that are separate clones of the same repository
+ */
+export interface DuplicateGroup {
+  /** Normalized remote URL the clones share (e.g., "github.com/joe/pj") */
+  remote: string;
+  /** The clones, enriched with their git status, most recent commit first */
+  projects: Project[];
+  /** Whether the clones have different branches checked out */
+  branchesDiffer: boolean;
+  /** Whether the clones' HEADs point at different commits */
+  headsDiffer: boolean;
+  /** Whether any clone has uncommitted changes */
+  dirty: boolean;
+}
+
+/**
+ * Summary of a git commit
+ */
+export interface GitCommit {
+  /** Commit SHA */
+  sha: string;
+  /** Author date as an ISO 8601 string */
+  date: string;
+  /** Author name */
+  author: string;
+  /** Author email */
+  email: string;
+  /** First line of the commit message */
+  subject: string;
+}
+
+/**
+ * Options for watching projects
+ */
+export interface WatchOptions extends DiscoverOptions {
+  /** Milliseconds to wait for filesystem activity to settle before rescanning (default 250) */
+  debounceMs?: number;
+}
+
+/**
+ * A change to the set of discovered projects
+ */
+export interface ProjectEvent {
+  /** Kind of change */
+  type: "added" | "removed" | "changed";
+  /** The project as currently discovered (or as last seen, when removed) */
+  project: Project;
+  /** The project as previously discovered, for "changed" events */
+  previous?: Project;
+}
+
+/**
+ * Options for grouping and counting projects by marker
+ */
+export interface MarkerGroupOptions extends DiscoverOptions {
+  /**
+   * Group each project under every marker it has instead of only its
+   * highest priority marker
+   */
+  allMarkers?: boolean;
+  /**
+   * Group by "marker" (default) or by "tag"; with "tag", each project is
+   * listed under every tag it has and untagged projects are left out
+   */
+  groupBy?: "marker" | "tag";
+}
+
+/**
+ * A matched character range as [start, end) offsets into a string
+ */
+export type MatchRange = [start: number, end: number];
+
+/**
+ * Result of fuzzy matching a query against a string
+ */
+export interface FuzzyMatch {
+  /** Match score (higher = better) */
+  score: number;
+  /** Matched character ranges, sorted and non-overlapping */
+  ranges: MatchRange[];
+}
+
+/**
+ * A project matched by a fuzzy search
+ */
+export interface ProjectMatch {
+  /** The matched project */
+  project: Project;
+  /** Match score (higher = better) */
+  score: number;
+  /** Matched character ranges in the project name */
+  nameRanges: MatchRange[];
+  /** Matched character ranges in the project's display name */
+  displayNameRanges: MatchRange[];
+  /** Matched character ranges in the project path */
+  pathRanges: MatchRange[];
+  /** Aliases of the project that query terms matched */
+  matchedAliases: string[];
+}
+
+/**
+ * A project's entry in the frecency store
+ */
+export interface FrecencyEntry {
+  /** Absolute path to the project directory */
+  path: string;
+  /** Total number of recorded visits */
+  visits: number;
+  /** Visit weight, reduced over time by decay */
+  rank: number;
+  /** ISO timestamp of the most recent visit */
+  lastVisit: string;
+  /** Frecency score at the time the entry was read (rank weighted by recency) */
+  score: number;
 }
 
 /**
  * Configuration for pj
  */
 export interface PjConfig {
-  /** Paths to search for projects */
-  paths: string[];
+  /** Paths to search for projects, optionally with their own settings */
+  paths: SearchPath[];
   /** Project marker files/directories */
   markers: string[];
   /** Patterns to exclude */
@@ -88,6 +619,195 @@ export interface PjConfig {
   colors: Record<string, string>;
   /** Priority mappings for markers (higher = more specific) */
   priorities: Record<string, number>;
+  /** Display names, aliases and tags by project path or glob */
+  projects?: Record<string, ProjectSettings>;
+  /** Named sets of settings overriding the rest of the config */
+  profiles?: Record<string, PjProfile>;
+}
+
+/**
+ * Settings of a named profile, overriding the rest of the config when the
+ * profile is selected
+ */
+export type PjProfile = Partial<Omit<PjConfig, "profiles">>;
+
+/**
+ * A search path with its own discovery settings
+ *
+ * Settings that aren't set fall back to the global ones.
+ */
+export interface SearchPathConfig {
+  /** Directory to search (~ is expanded) */
+  path: string;
+  /** Maximum search depth below this path */
+  maxDepth?: number;
+  /** Project markers to look for below this path */
+  markers?: string[];
+  /** Patterns to exclude below this path */
+  exclude?: string[];
+  /** Disallow nested projects below this path */
+  noNested?: boolean;
+  /** Tags added to every project found below this path */
+  tags?: string[];
+}
+
+/**
+ * A configured search path: a directory, or a directory with its own settings
+ */
+export type SearchPath = string | SearchPathConfig;
+
+/**
+ * A marker with its display metadata, as written in the object format of
+ * the config's `markers` list
+ */
+export interface MarkerDefinition {
+  marker: string;
+  /** Icon shown for projects with this marker (Nerd Font) */
+  icon?: string;
+  /** Color name for the icon (e.g., "cyan", "bright-red") */
+  color?: string;
+  /** Priority of the marker (higher = more specific) */
+  priority?: number;
+}
+
+/**
+ * A marker whose object form and a deprecated map disagree
+ */
+export interface ConfigMigrationConflict {
+  marker: string;
+  field: "icon" | "color" | "priority";
+  /** Value in the deprecated `icons`, `colors` or `priorities` map */
+  legacyValue: string | number;
+  /** Value in the marker object */
+  markerValue: unknown;
+}
+
+/**
+ * Options for migrating a config file
+ */
+export interface MigrateConfigOptions {
+  /** Compute the diff without writing anything */
+  dryRun?: boolean;
+  /** Where to copy the original file (defaults to the config path plus `.bak`) */
+  backupPath?: string;
+}
+
+/**
+ * Outcome of migrating a config file to the marker object format
+ */
+export interface ConfigMigrationResult {
+  filePath: string;
+  /** Whether the migration changes the file */
+  changed: boolean;
+  /** Unified diff of the change; empty if nothing changes */
+  diff: string;
+  /** Copy of the original file; undefined on a dry run or without changes */
+  backupPath: string | undefined;
+  /** Markers whose metadata was moved into their marker objects */
+  migrated: string[];
+  /** Disagreements left in place for the user to resolve */
+  conflicts: ConfigMigrationConflict[];
+  /** Markers with deprecated entries that aren't in the markers list, left in place */
+  unlisted: string[];
+}
+
+/**
+ * A problem found while validating a config file
+ */
+export interface ConfigDiagnostic {
+  /** Location of the value in the config (e.g., ["paths", 1, "max_depth"]) */
+  path: (string | number)[];
+  /** 1-based line of the offending node */
+  line: number;
+  /** 1-based column of the offending node */
+  column: number;
+  /** Errors make the config unusable; warnings flag likely mistakes */
+  severity: "error" | "warning";
+  message: string;
+  /** Known key an unknown key was probably meant to be */
+  suggestion?: string | undefined;
+}
+
+/**
+ * Options for validating a config file
+ */
+export interface ConfigValidationOptions {
+  /** Report unknown keys as errors instead of warnings */
+  strict?: boolean;
+}
+
+/**
+ * Options for loading a config file
+ */
+export interface LoadConfigOptions {
+  /**
+   * Validate the config and throw PjConfigValidationError on errors, with
+   * unknown keys treated as errors
+   */
+  strict?: boolean;
+}
+
+/**
+ * A source of config values, from lowest to highest precedence
+ *
+ * - `default`: built-in defaults
+ * - `system`: system-wide config file
+ * - `user`: user config file
+ * - `project`: `.pj.yaml` found by walking up from the working directory
+ * - `profile`: the selected profile from the `profiles` sections of the files
+ * - `env`: `PJ_*` environment variables
+ * - `override`: options passed to `Pj` or `resolveConfig`
+ */
+export type ConfigLayerName =
+  | "default"
+  | "system"
+  | "user"
+  | "project"
+  | "profile"
+  | "env"
+  | "override";
+
+/**
+ * The values set by one config layer
+ */
+export interface ConfigLayer {
+  name: ConfigLayerName;
+  /** File the layer was read from, for file and profile layers */
+  source: string | undefined;
+  config: Partial<PjConfig>;
+}
+
+/**
+ * Options for resolving the layered config
+ */
+export interface ResolveConfigOptions extends LoadConfigOptions {
+  /** User config file (defaults to the pj config path) */
+  configPath?: string;
+  /** System-wide config file (defaults to /etc/pj/config.yaml) */
+  systemConfigPath?: string;
+  /**
+   * Directory to start looking for `.pj.yaml` from (defaults to the working
+   * directory); `false` skips the project layer
+   */
+  cwd?: string | false;
+  /** Environment to read `PJ_*` variables from (defaults to process.env) */
+  env?: Record<string, string | undefined>;
+  /** Values taking precedence over every other layer */
+  overrides?: Partial<PjConfig>;
+  /** Profile to apply (defaults to the PJ_PROFILE environment variable) */
+  profile?: string;
+}
+
+/**
+ * Where an effective config value came from
+ */
+export interface ConfigValueSource {
+  key: keyof PjConfig;
+  value: PjConfig[keyof PjConfig];
+  /** Last layer that set the value (for maps, any of its entries) */
+  layer: ConfigLayerName;
+  /** File or environment variable that set the value */
+  source: string | undefined;
 }
 
 /**
@@ -128,6 +848,8 @@ export interface BinaryOptions {
   version?: string;
   /** Progress callback for downloads */
   onProgress?: (progress: DownloadProgress) => void;
+  /** Cancels the download; the operation rejects with PjAbortError */
+  signal?: AbortSignal;
 }
 
 /**
@@ -226,3 +948,71 @@ export class PjConfigError extends Error {
     this.name = "PjConfigError";
   }
 }
+
+/**
+ * Error thrown when a config file fails strict validation
+ */
+export class PjConfigValidationError extends PjConfigError {
+  /** Every problem found, in document order */
+  public readonly diagnostics: ConfigDiagnostic[];
+
+  constructor(message: string, diagnostics: ConfigDiagnostic[]) {
+    super(message);
+    this.name = "PjConfigValidationError";
+    this.diagnostics = diagnostics;
+  }
+}
+
+/**
+ * Error thrown when a project query can't be parsed
+ */
+export class PjQueryError extends Error {
+  /** The query being parsed */
+  public readonly query: string;
+  /** Offset in the query where the error was found */
+  public readonly position: number;
+
+  constructor(message: string, query: string, position: number) {
+    super(`${message} at position ${String(position)}`);
+    this.name = "PjQueryError";
+    this.query = query;
+    this.position = position;
+  }
+}
+
+/**
+ * Error thrown when an operation is cancelled with an AbortSignal
+ */
+export class PjAbortError extends Error {
+  constructor(
+    message: string,
+    /** The signal's abort reason */
+    public readonly reason?: unknown
+  ) {
+    super(message, { cause: reason });
+    this.name = "PjAbortError";
+  }
+}
+
+/**
+ * Error thrown when a pj run exceeds its time limit
+ */
+export class PjTimeoutError extends Error {
+  /** Arguments pj was run with */
+  public readonly args: string[];
+  /** The time limit in milliseconds */
+  public readonly timeoutMs: number;
+  /** Time elapsed before pj was killed, in milliseconds */
+  public readonly elapsedMs: number;
+
+  constructor(args: string[], timeoutMs: number, elapsedMs: number) {
+    super(
+      `pj timed out after ${String(Math.round(elapsedMs))}ms ` +
+        `(limit ${String(timeoutMs)}ms): pj ${args.join(" ")}`
+    );
+    this.name = "PjTimeoutError";
+    this.args = args;
+    this.timeoutMs = timeoutMs;
+    this.elapsedMs = elapsedMs;
+  }
+}
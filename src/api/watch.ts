@@ -0,0 +1,419 @@
+import { EventEmitter } from "node:events";
+import * as fs from "node:fs";
+import * as fsp from "node:fs/promises";
+import * as path from "node:path";
+
+import type { Project, ProjectEvent, WatchOptions } from "./types.js";
+import { discover } from "./discover.js";
+import { expandSearchPaths, loadConfig } from "./config.js";
+import { searchPathOf } from "./search-paths.js";
+import { createExcludeMatcher } from "../native/walker.js";
+
+/** Default debounce delay in milliseconds */
+const DEFAULT_DEBOUNCE_MS = 250;
+
+/**
+ * Events emitted by a ProjectWatcher
+ */
+export interface ProjectWatcherEvents {
+  /** Initial discovery finished */
+  ready: [projects: Project[]];
+  /** A project was added */
+  added: [event: ProjectEvent];
+  /** A project was removed */
+  removed: [event: ProjectEvent];
+  /** A project's marker or metadata changed */
+  changed: [event: ProjectEvent];
+  /** Any of added, removed or changed */
+  event: [event: ProjectEvent];
+  /** Discovery or a filesystem watcher failed */
+  error: [error: unknown];
+  /** The watcher was closed */
+  close: [];
+}
+
+/**
+ * Resolved settings for the filesystem watchers
+ */
+interface WatchSettings {
+  roots: string[];
+  markers: Set<string>;
+  maxDepth: number;
+  nested: boolean;
+  isExcluded: (dir: string) => boolean;
+}
+
+/**
+ * Watches the configured search paths and emits project changes
+ *
+ * Directories are watched with `fs.watch` from each search path down to
+ * `maxDepth`, honoring `excludes`. Filesystem activity is debounced, then
+ * discovery is re-run and the result diffed against the previous one.
+ *
+ * Events can be consumed with listeners or with `for await`. Errors are
+ * emitted as "error" events only when something is listening for them.
+ *
+ * @example
+ * ```typescript
+ * const watcher = pj.watch();
+ * watcher.on('added', ({ project }) => console.log('new project', project.path));
+ *
+ * for await (const event of watcher) {
+ *   console.log(event.type, event.project.name);
+ * }
+ *
+ * await watcher.close();
+ * ```
+ */
+export class ProjectWatcher
+  extends EventEmitter<ProjectWatcherEvents>
+  implements AsyncIterable<ProjectEvent>
+{
+  /** Resolves once the initial discovery has finished */
+  readonly ready: Promise<void>;
+
+  private readonly options: WatchOptions;
+  private readonly watchers = new Map<string, fs.FSWatcher>();
+  private projects = new Map<string, Project>();
+  private settings: WatchSettings | undefined;
+  private timer: NodeJS.Timeout | undefined;
+  private scanning: Promise<void> | undefined;
+  private rescanQueued = false;
+  private closed = false;
+
+  /**
+   * Create a watcher and start the initial discovery
+   *
+   * @param options - Discovery options, plus the debounce delay
+   */
+  constructor(options: WatchOptions = {}) {
+    super();
+    this.options = options;
+    this.ready = this.start();
+    this.ready.catch((error: unknown) => {
+      this.fail(error);
+    });
+  }
+
+  /**
+   * Get the currently known projects
+   */
+  getProjects(): Project[] {
+    return [...this.projects.values()];
+  }
+
+  /**
+   * Whether the watcher has been closed
+   */
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Stop watching and release all filesystem watchers
+   */
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    clearTimeout(this.timer);
+
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+
+    await this.scanning;
+    this.emit("close");
+  }
+
+  /**
+   * Iterate over project events
+   *
+   * Events are buffered from the moment iteration starts. Iteration ends when
+   * the watcher is closed; breaking out of the loop stops listening but leaves
+   * the watcher running.
+   */
+  [Symbol.asyncIterator](): AsyncIterator<ProjectEvent> {
+    const buffer: ProjectEvent[] = [];
+    const waiting: {
+      resolve: (result: IteratorResult<ProjectEvent>) => void;
+      reject: (error: unknown) => void;
+    }[] = [];
+    let failure: { error: unknown } | undefined;
+    let done = this.closed;
+
+    const onEvent = (event: ProjectEvent): void => {
+      const waiter = waiting.shift();
+      if (waiter) {
+        waiter.resolve({ value: event, done: false });
+      } else {
+        buffer.push(event);
+      }
+    };
+    const onError = (error: unknown): void => {
+      failure = { error };
+      stop();
+      for (const waiter of waiting.splice(0)) {
+        waiter.reject(error);
+      }
+    };
+    const stop = (): void => {
+      done = true;
+      this.off("event", onEvent);
+      this.off("error", onError);
+      this.off("close", stop);
+      for (const waiter of waiting.splice(0)) {
+        waiter.resolve({ value: undefined, done: true });
+      }
+    };
+
+    if (!done) {
+      this.on("event", onEvent);
+      this.on("error", onError);
+      this.on("close", stop);
+    }
+
+    return {
+      next: () => {
+        const event = buffer.shift();
+        if (event) {
+          return Promise.resolve({ value: event, done: false });
+        }
+        if (failure) {
+          const { error } = failure;
+          failure = undefined;
+          return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+        }
+        if (done) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve, reject) => {
+          waiting.push({ resolve, reject });
+        });
+      },
+      return: () => {
+        stop();
+        return Promise.resolve({ value: undefined, done: true });
+      },
+    };
+  }
+
+  private async start(): Promise<void> {
+    this.settings = await this.resolveSettings();
+    const projects = await this.scan();
+    if (this.closed) {
+      return;
+    }
+
+    this.projects = projects;
+    await this.syncWatchers();
+    // The watcher may have been closed while directories were listed
+    if (!this.isClosed()) {
+      this.emit("ready", this.getProjects());
+    }
+  }
+
+  private async resolveSettings(): Promise<WatchSettings> {
+    const config = await loadConfig(this.options.configPath);
+    const { paths } = await expandSearchPaths(this.options.paths ?? config.paths);
+    const markers = this.options.markers ?? config.markers;
+    const maxDepth = this.options.maxDepth ?? config.maxDepth;
+
+    // Watch deep enough, and for enough markers, to cover every path's settings
+    const overrides = paths.filter((p) => typeof p !== "string");
+    return {
+      roots: paths.map((p) => path.resolve(searchPathOf(p))),
+      markers: new Set([...markers, ...overrides.flatMap((p) => p.markers ?? [])]),
+      maxDepth: Math.max(maxDepth, ...overrides.map((p) => p.maxDepth ?? maxDepth)),
+      nested: this.options.nested ?? !config.noNested,
+      isExcluded: createExcludeMatcher(this.options.excludes ?? config.exclude),
+    };
+  }
+
+  private async scan(): Promise<Map<string, Project>> {
+    const projects = await discover({ ...this.options, noCache: true });
+    return new Map(projects.map((p) => [p.path, p]));
+  }
+
+  /**
+   * Schedule a rescan once filesystem activity has settled
+   */
+  private scheduleRescan(): void {
+    if (this.closed) {
+      return;
+    }
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      void this.rescan();
+    }, this.options.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+  }
+
+  private async rescan(): Promise<void> {
+    if (this.scanning) {
+      this.rescanQueued = true;
+      return;
+    }
+
+    this.scanning = (async () => {
+      try {
+        const next = await this.scan();
+        if (!this.closed) {
+          this.applyScan(next);
+          await this.syncWatchers();
+        }
+      } catch (error) {
+        this.fail(error);
+      }
+    })();
+
+    await this.scanning;
+    this.scanning = undefined;
+
+    if (this.rescanQueued) {
+      this.rescanQueued = false;
+      this.scheduleRescan();
+    }
+  }
+
+  /**
+   * Diff a new scan against the known projects and emit events
+   */
+  private applyScan(next: Map<string, Project>): void {
+    const events: ProjectEvent[] = [];
+
+    for (const [projectPath, project] of next) {
+      const previous = this.projects.get(projectPath);
+      if (!previous) {
+        events.push({ type: "added", project });
+      } else if (JSON.stringify(previous) !== JSON.stringify(project)) {
+        events.push({ type: "changed", project, previous });
+      }
+    }
+
+    for (const [projectPath, project] of this.projects) {
+      if (!next.has(projectPath)) {
+        events.push({ type: "removed", project });
+      }
+    }
+
+    this.projects = next;
+
+    for (const event of events) {
+      this.emit(event.type, event);
+      this.emit("event", event);
+    }
+  }
+
+  /**
+   * Watch every directory down to maxDepth and stop watching the rest
+   */
+  private async syncWatchers(): Promise<void> {
+    const settings = this.settings;
+    if (!settings) {
+      return;
+    }
+
+    const wanted = new Set<string>();
+    await Promise.all(
+      settings.roots.map((root) => this.collectDirectories(root, 0, settings, wanted))
+    );
+    if (this.closed) {
+      return;
+    }
+
+    for (const [dir, watcher] of this.watchers) {
+      if (!wanted.has(dir)) {
+        watcher.close();
+        this.watchers.delete(dir);
+      }
+    }
+
+    for (const dir of wanted) {
+      if (!this.watchers.has(dir)) {
+        this.watchDirectory(dir, settings);
+      }
+    }
+  }
+
+  private async collectDirectories(
+    dir: string,
+    depth: number,
+    settings: WatchSettings,
+    into: Set<string>
+  ): Promise<void> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fsp.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    into.add(dir);
+
+    // Without nested discovery, nothing below a project can become a project
+    if (depth >= settings.maxDepth || (!settings.nested && this.projects.has(dir))) {
+      return;
+    }
+
+    await Promise.all(
+      entries
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => path.join(dir, entry.name))
+        .filter((child) => !settings.isExcluded(child))
+        .map((child) => this.collectDirectories(child, depth + 1, settings, into))
+    );
+  }
+
+  private watchDirectory(dir: string, settings: WatchSettings): void {
+    let watcher: fs.FSWatcher;
+    try {
+      watcher = fs.watch(dir, { persistent: true });
+    } catch {
+      // Directory disappeared between listing and watching
+      return;
+    }
+
+    watcher.on("change", (eventType, filename) => {
+      const name = typeof filename === "string" ? filename : filename.toString();
+      if (name && settings.isExcluded(path.join(dir, name))) {
+        return;
+      }
+      // Content changes only matter for markers and ignore files; creations,
+      // deletions and renames can always affect discovery
+      if (
+        eventType === "change" &&
+        name &&
+        !settings.markers.has(name) &&
+        name !== ".gitignore"
+      ) {
+        return;
+      }
+      this.scheduleRescan();
+    });
+
+    watcher.on("error", () => {
+      // The directory was removed; the next rescan prunes it
+      watcher.close();
+      this.watchers.delete(dir);
+      this.scheduleRescan();
+    });
+
+    this.watchers.set(dir, watcher);
+  }
+
+  private fail(error: unknown): void {
+    if (this.listenerCount("error") > 0) {
+      this.emit("error", error);
+    }
+  }
+}
+
+/**
+ * Watch the configured search paths for project changes
+ *
+ * @param options - Discovery options, plus the debounce delay
+ */
+export function watchProjects(options?: WatchOptions): ProjectWatcher {
+  return new ProjectWatcher(options);
+}
@@ -65,6 +65,11 @@ export function getMetadataPath(): string {
   return path.join(getCacheDir(), "metadata.json");
 }
 
+/** Frecency store file path */
+export function getFrecencyPath(): string {
+  return path.join(getCacheDir(), "frecency.json");
+}
+
 /** pj config directory */
 export function getPjConfigDir(): string {
   const xdgConfig = process.env["XDG_CONFIG_HOME"];
@@ -88,8 +93,33 @@ export function getPjConfigPath(): string {
   return path.join(getPjConfigDir(), "config.yaml");
 }
 
-/** pj cache directory */
-export function getPjCacheDir(): string {
+/** System-wide pj config file path, read before the user config */
+export function getSystemConfigPath(): string {
+  if (process.platform === "win32") {
+    const programData = process.env["PROGRAMDATA"] ?? "C:\\ProgramData";
+    return path.join(programData, "pj", "config.yaml");
+  }
+
+  return "/etc/pj/config.yaml";
+}
+
+/** Name of the repo- or team-local config file, found by walking up from cwd */
+export const PROJECT_CONFIG_FILENAME = ".pj.yaml";
+
+/**
+ * Cache home (`XDG_CACHE_HOME`) pj runs with for a config profile, so each
+ * profile has its own pj cache
+ */
+export function getProfileCacheHome(profile: string): string {
+  return path.join(getCacheDir(), "profiles", encodeURIComponent(profile));
+}
+
+/** pj cache directory, for the given config profile if any */
+export function getPjCacheDir(profile?: string): string {
+  if (profile !== undefined) {
+    return path.join(getProfileCacheHome(profile), "pj");
+  }
+
   const xdgCache = process.env["XDG_CACHE_HOME"];
   if (xdgCache) {
     return path.join(xdgCache, "pj");
@@ -14,6 +14,7 @@ import type {
   GithubRelease,
 } from "../api/types.js";
 import { PjBinaryError } from "../api/types.js";
+import { throwIfAborted, toAbortError, withTimeout } from "../api/abort.js";
 import {
   RELEASES_URL,
   LATEST_RELEASE_URL,
@@ -77,6 +78,7 @@ export class BinaryManager {
         try {
           await this.updateBinary(options);
         } catch {
+          throwIfAborted(options?.signal);
           // If update fails, continue with existing binary
         }
       }
@@ -139,11 +141,16 @@ export class BinaryManager {
    * Download and install the pj binary.
    * If no specific version is requested, downloads the highest compatible version
    * within the target major.minor range.
+   *
+   * @throws PjAbortError if `options.signal` is aborted
    */
   async downloadBinary(options?: BinaryOptions): Promise<string> {
+    const signal = options?.signal;
+    throwIfAborted(signal);
+
     const release = options?.version
-      ? await this.getRelease(options.version)
-      : await this.getCompatibleRelease();
+      ? await this.getRelease(options.version, signal)
+      : await this.getCompatibleRelease(signal);
 
     const platform = detectPlatform();
     const assetName = getAssetFilename(release.version, platform);
@@ -162,7 +169,8 @@ export class BinaryManager {
 
     // Download the tarball
     const tarballPath = path.join(cacheDir, assetName);
-    await this.downloadAsset(asset, tarballPath, options?.onProgress);
+    await this.downloadAsset(asset, tarballPath, options?.onProgress, signal);
+    throwIfAborted(signal);
 
     // Extract the binary
     const binaryName = getBinaryName();
@@ -202,7 +210,7 @@ export class BinaryManager {
    * Update the binary to the highest compatible version within the target range.
    */
   async updateBinary(options?: BinaryOptions): Promise<string> {
-    const compatible = await this.getCompatibleRelease();
+    const compatible = await this.getCompatibleRelease(options?.signal);
     const metadata = await this.getMetadata();
 
     if (metadata?.version === compatible.version && !options?.force) {
@@ -362,17 +370,40 @@ export class BinaryManager {
     await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2));
   }
 
+  /**
+   * Fetch a URL, aborting on the caller's signal or after a timeout
+   */
+  private async request(
+    url: string,
+    headers: Record<string, string>,
+    timeout: number,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    try {
+      return await fetch(url, { headers, signal: withTimeout(signal, timeout) });
+    } catch (error) {
+      throwIfAborted(signal);
+      // e.g. offline, or the request timed out
+      throw new PjBinaryError(
+        `Failed to fetch ${url}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
   /**
    * Get all releases from GitHub (up to 100 most recent)
    */
-  async getAllReleases(): Promise<GithubRelease[]> {
-    const response = await fetch(`${RELEASES_URL}?per_page=100`, {
-      headers: {
+  async getAllReleases(signal?: AbortSignal): Promise<GithubRelease[]> {
+    const response = await this.request(
+      `${RELEASES_URL}?per_page=100`,
+      {
         Accept: "application/vnd.github.v3+json",
         "User-Agent": USER_AGENT,
       },
-      signal: AbortSignal.timeout(HTTP_TIMEOUT),
-    });
+      HTTP_TIMEOUT,
+      signal
+    );
 
     if (!response.ok) {
       throw new PjBinaryError(
@@ -400,8 +431,8 @@ export class BinaryManager {
   /**
    * Get the highest compatible release within the target major.minor range.
    */
-  async getCompatibleRelease(): Promise<GithubRelease> {
-    const releases = await this.getAllReleases();
+  async getCompatibleRelease(signal?: AbortSignal): Promise<GithubRelease> {
+    const releases = await this.getAllReleases(signal);
     const versions = releases.map((r) => r.version);
 
     const compatibleVersion = findHighestCompatibleVersion(
@@ -429,14 +460,16 @@ export class BinaryManager {
   /**
    * Get the latest release from GitHub
    */
-  async getLatestRelease(): Promise<GithubRelease> {
-    const response = await fetch(LATEST_RELEASE_URL, {
-      headers: {
+  async getLatestRelease(signal?: AbortSignal): Promise<GithubRelease> {
+    const response = await this.request(
+      LATEST_RELEASE_URL,
+      {
         Accept: "application/vnd.github.v3+json",
         "User-Agent": USER_AGENT,
       },
-      signal: AbortSignal.timeout(HTTP_TIMEOUT),
-    });
+      HTTP_TIMEOUT,
+      signal
+    );
 
     if (!response.ok) {
       throw new PjBinaryError(
@@ -462,17 +495,22 @@ export class BinaryManager {
   /**
    * Get a specific release from GitHub
    */
-  private async getRelease(version: string): Promise<GithubRelease> {
+  private async getRelease(
+    version: string,
+    signal?: AbortSignal
+  ): Promise<GithubRelease> {
     const tag = version.startsWith("v") ? version : `v${version}`;
     const url = `${LATEST_RELEASE_URL.replace("/latest", "")}/${tag}`;
 
-    const response = await fetch(url, {
-      headers: {
+    const response = await this.request(
+      url,
+      {
         Accept: "application/vnd.github.v3+json",
         "User-Agent": USER_AGENT,
       },
-      signal: AbortSignal.timeout(HTTP_TIMEOUT),
-    });
+      HTTP_TIMEOUT,
+      signal
+    );
 
     if (!response.ok) {
       throw new PjBinaryError(
@@ -529,14 +567,15 @@ export class BinaryManager {
   private async downloadAsset(
     asset: GithubAsset,
     destPath: string,
-    onProgress?: (progress: DownloadProgress) => void
+    onProgress?: (progress: DownloadProgress) => void,
+    signal?: AbortSignal
   ): Promise<void> {
-    const response = await fetch(asset.downloadUrl, {
-      headers: {
-        "User-Agent": USER_AGENT,
-      },
-      signal: AbortSignal.timeout(HTTP_TIMEOUT * 10), // Longer timeout for downloads
-    });
+    const response = await this.request(
+      asset.downloadUrl,
+      { "User-Agent": USER_AGENT },
+      HTTP_TIMEOUT * 10, // Longer timeout for downloads
+      signal
+    );
 
     if (!response.ok) {
       throw new PjBinaryError(
@@ -565,10 +604,16 @@ export class BinaryManager {
 
     const fileStream = createWriteStream(destPath);
 
-    await pipeline(
-      Readable.fromWeb(response.body.pipeThrough(progressStream)),
-      fileStream
-    );
+    try {
+      await pipeline(
+        Readable.fromWeb(response.body.pipeThrough(progressStream)),
+        fileStream
+      );
+    } catch (error) {
+      // Don't leave a partial tarball behind
+      await fs.rm(destPath, { force: true });
+      throw toAbortError(error, signal);
+    }
   }
 
   /**
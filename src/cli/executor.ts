@@ -1,8 +1,12 @@
-import { execa, type Options as ExecaOptions } from "execa";
+import { ExecaError, execa, type Options as ExecaOptions } from "execa";
 
-import type { DiscoverOptions, Project } from "../api/types.js";
-import { PjExecutionError } from "../api/types.js";
+import type { DiscoverOptions, ExecutionOptions, Project } from "../api/types.js";
+import { PjAbortError, PjExecutionError, PjTimeoutError } from "../api/types.js";
+import { throwIfAborted } from "../api/abort.js";
+import { searchPathOf } from "../api/search-paths.js";
+import { DEFAULT_TIMEOUT_MS, shouldRetry, waitBeforeRetry, withRetry } from "./retry.js";
 import { getBinaryManager } from "../binary/manager.js";
+import { getProfileCacheHome } from "../binary/constants.js";
 
 /**
  * Result from executing pj
@@ -20,8 +24,9 @@ export function buildArgs(options?: DiscoverOptions): string[] {
   const args: string[] = [];
 
   if (options?.paths) {
+    // Per-path settings are applied by partitioning discovery
     for (const p of options.paths) {
-      args.push("--path", p);
+      args.push("--path", searchPathOf(p));
     }
   }
 
@@ -61,7 +66,8 @@ export function buildArgs(options?: DiscoverOptions): string[] {
     args.push("--shorten");
   }
 
-  if (options?.sort) {
+  // Frecency is ranked in Node after discovery, not by the binary
+  if (options?.sort && options.sort !== "frecency") {
     args.push("--sort", options.sort);
   }
 
@@ -114,6 +120,26 @@ interface PjJsonOutput {
   projects: PjJsonProject[];
 }
 
+/**
+ * Convert a project from pj's JSON output into a Project
+ */
+function toProject(p: PjJsonProject): Project {
+  return {
+    path: p.path,
+    displayPath: p.displayPath,
+    name: p.name,
+    marker: p.marker,
+    label: p.label,
+    displayLabel: p.displayLabel,
+    icon: p.icon,
+    ansiIcon: p.ansiIcon,
+    color: p.color,
+    priority: undefined,  // not included in JSON output
+    isWorktree: p.isWorktree,
+    worktreeParent: p.worktreeParent,
+  };
+}
+
 /**
  * Parse JSON output from pj
  */
@@ -134,20 +160,7 @@ export function parseJsonOutput(output: string): Project[] {
       );
     }
 
-    return projects.map((p) => ({
-      path: p.path,
-      displayPath: p.displayPath,
-      name: p.name,
-      marker: p.marker,
-      label: p.label,
-      displayLabel: p.displayLabel,
-      icon: p.icon,
-      ansiIcon: p.ansiIcon,
-      color: p.color,
-      priority: undefined,  // not included in JSON output
-      isWorktree: p.isWorktree,
-      worktreeParent: p.worktreeParent,
-    }));
+    return projects.map(toProject);
   } catch (error) {
     if (error instanceof PjExecutionError) {
       throw error;
@@ -158,89 +171,403 @@ export function parseJsonOutput(output: string): Project[] {
   }
 }
 
+/**
+ * Decode the raw text of a JSON string, keeping it as is if it's malformed
+ */
+function decodeKey(raw: string): string {
+  try {
+    return JSON.parse(`"${raw}"`) as string;
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Incremental parser for pj's JSON output
+ *
+ * Accepts the output in arbitrary chunks and returns each project as soon as
+ * its object has been fully received. Supports both the wrapped
+ * `{ "projects": [...] }` format and the direct array format.
+ */
+export class ProjectStreamParser {
+  /** Open containers outside of a project object ("{" or "[") */
+  private readonly stack: string[] = [];
+  /** Nesting depth inside the project object currently being read */
+  private objectDepth = 0;
+  /** Source text of the project object currently being read */
+  private current = "";
+  private inString = false;
+  private escaped = false;
+  private sawProjects = false;
+  private sawContent = false;
+  /** Raw text of the wrapper object string currently being read */
+  private stringText: string | undefined;
+  /** Last complete string read in the wrapper object */
+  private lastString = "";
+  /** Key of the wrapper object value currently being read */
+  private key: string | undefined;
+
+  /**
+   * Feed a chunk of output to the parser
+   *
+   * @returns Projects completed by this chunk
+   */
+  push(chunk: string): Project[] {
+    const projects: Project[] = [];
+    let objectStart = this.objectDepth > 0 ? 0 : -1;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk.charAt(i);
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (ch === "\\") {
+          this.escaped = true;
+        } else if (ch === '"') {
+          this.inString = false;
+          if (this.stringText !== undefined) {
+            this.lastString = this.stringText;
+            this.stringText = undefined;
+          }
+          continue;
+        }
+        if (this.stringText !== undefined) {
+          this.stringText += ch;
+        }
+        continue;
+      }
+
+      if (!this.sawContent && ch.trim() !== "") {
+        this.sawContent = true;
+      }
+
+      switch (ch) {
+        case '"':
+          this.inString = true;
+          if (this.inWrapper()) {
+            this.stringText = "";
+          }
+          break;
+        case ":":
+          if (this.inWrapper()) {
+            this.key = decodeKey(this.lastString);
+          }
+          break;
+        case ",":
+          if (this.inWrapper()) {
+            this.key = undefined;
+          }
+          break;
+        case "{":
+        case "[":
+          if (this.objectDepth > 0) {
+            this.objectDepth++;
+          } else if (ch === "{" && this.inProjectArray()) {
+            this.objectDepth = 1;
+            objectStart = i;
+          } else {
+            this.stack.push(ch);
+            if (ch === "[" && this.inProjectArray()) {
+              this.sawProjects = true;
+            }
+          }
+          break;
+        case "}":
+        case "]":
+          if (this.objectDepth > 0) {
+            this.objectDepth--;
+            if (this.objectDepth === 0) {
+              this.current += chunk.slice(objectStart, i + 1);
+              projects.push(this.parseProject(this.current));
+              this.current = "";
+              objectStart = -1;
+            }
+          } else {
+            this.stack.pop();
+          }
+          break;
+      }
+    }
+
+    if (this.objectDepth > 0 && objectStart !== -1) {
+      this.current += chunk.slice(objectStart);
+    }
+
+    return projects;
+  }
+
+  /**
+   * Signal the end of the output
+   *
+   * @throws PjExecutionError if the output was truncated or malformed
+   */
+  end(): void {
+    if (!this.sawContent) {
+      return;
+    }
+    if (this.objectDepth > 0 || this.inString || this.stack.length > 0) {
+      throw new PjExecutionError(
+        "Failed to parse pj output: unexpected end of JSON input"
+      );
+    }
+    if (!this.sawProjects) {
+      throw new PjExecutionError(
+        "Unexpected pj output format: expected projects array"
+      );
+    }
+  }
+
+  /**
+   * Whether the innermost open container holds project objects
+   *
+   * In the wrapped format, only the elements of the `projects` array are
+   * projects; other arrays of the wrapper object are skipped.
+   */
+  private inProjectArray(): boolean {
+    const depth = this.stack.length;
+    if (this.stack[depth - 1] !== "[") {
+      return false;
+    }
+    return depth === 1 || (depth === 2 && this.stack[0] === "{" && this.key === "projects");
+  }
+
+  /**
+   * Whether the parser is directly inside the wrapper object
+   */
+  private inWrapper(): boolean {
+    return this.objectDepth === 0 && this.stack.length === 1 && this.stack[0] === "{";
+  }
+
+  private parseProject(source: string): Project {
+    try {
+      return toProject(JSON.parse(source) as PjJsonProject);
+    } catch (error) {
+      throw new PjExecutionError(
+        `Failed to parse pj output: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
+/**
+ * Convert an execa failure into a PjExecutionError, a PjTimeoutError when the
+ * process hit its time limit, or a PjAbortError when it was cancelled
+ */
+function toExecutionError(error: unknown, args: string[], timeoutMs: number): unknown {
+  if (error instanceof ExecaError && error.isCanceled) {
+    return new PjAbortError("pj command was aborted", error.cause);
+  }
+  if (error instanceof ExecaError && error.timedOut) {
+    return new PjTimeoutError(args, timeoutMs, error.durationMs);
+  }
+  if (error instanceof Error && "exitCode" in error) {
+    const execaError = error as Error & {
+      exitCode?: number;
+      stderr?: string;
+    };
+    return new PjExecutionError(
+      `pj command failed: ${execaError.message}`,
+      execaError.exitCode,
+      execaError.stderr
+    );
+  }
+  return error;
+}
+
+/**
+ * Resolve the pj binary, cancelling a download with the run's signal
+ */
+async function resolveBinary(
+  signal: AbortSignal | undefined,
+  binaryPath: string | undefined
+): Promise<string> {
+  throwIfAborted(signal);
+  return binaryPath ?? getBinaryManager().getBinaryPath(signal ? { signal } : undefined);
+}
+
+/**
+ * Build the execa options for a single pj run
+ *
+ * Explicit execa options take precedence over the execution options.
+ */
+function runOptions(
+  execution: ExecutionOptions | undefined,
+  execaOptions: ExecaOptions | undefined
+): { options: ExecaOptions; signal: AbortSignal | undefined; timeoutMs: number } {
+  const signal = execaOptions?.cancelSignal ?? execution?.signal;
+  const timeoutMs = execaOptions?.timeout ?? execution?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  // Point pj at the profile's own cache; execa extends process.env with this
+  const profile = execution?.profile;
+  const env =
+    profile === undefined
+      ? execaOptions?.env
+      : { ...execaOptions?.env, XDG_CACHE_HOME: getProfileCacheHome(profile) };
+
+  return {
+    options: {
+      ...execaOptions,
+      timeout: timeoutMs,
+      ...(signal ? { cancelSignal: signal } : {}),
+      ...(env ? { env } : {}),
+    },
+    signal,
+    timeoutMs,
+  };
+}
+
 /**
  * Execute the pj binary with the given arguments
  *
+ * Each attempt is limited to `execution.timeoutMs` (default 60s), and
+ * transient failures are retried under `execution.retry`.
+ *
  * Note: This function uses `execa` which does NOT use shell by default,
  * preventing command injection vulnerabilities.
+ *
+ * @throws PjTimeoutError if the last attempt timed out
+ * @throws PjAbortError if `execution.signal` is aborted
  */
 export async function executePj(
   args: string[],
-  execaOptions?: ExecaOptions
+  execaOptions?: ExecaOptions,
+  execution?: ExecutionOptions
 ): Promise<PjResult> {
-  const binaryManager = getBinaryManager();
-  const binaryPath = await binaryManager.getBinaryPath();
-
-  try {
-    // execa does not use shell by default, safe from command injection
-    // stdin: 'ignore' prevents hanging when called from Node.js environments
-    // that inherit stdin from parent process (e.g., Raycast, VS Code extensions)
-    const result = await execa(binaryPath, args, {
-      stdin: "ignore",
-      timeout: 60000, // 1 minute timeout
-      ...execaOptions,
-    });
-
-    return {
-      stdout: String(result.stdout ?? ""),
-      stderr: String(result.stderr ?? ""),
-      exitCode: result.exitCode ?? 0,
-    };
-  } catch (error) {
-    if (error instanceof Error && "exitCode" in error) {
-      const execaError = error as Error & {
-        exitCode?: number;
-        stderr?: string;
+  const { options, signal, timeoutMs } = runOptions(execution, execaOptions);
+  const binaryPath = await resolveBinary(signal, execution?.binaryPath);
+
+  return withRetry(async () => {
+    try {
+      // execa does not use shell by default, safe from command injection
+      // stdin: 'ignore' prevents hanging when called from Node.js environments
+      // that inherit stdin from parent process (e.g., Raycast, VS Code extensions)
+      const result = await execa(binaryPath, args, {
+        stdin: "ignore",
+        ...options,
+      });
+
+      return {
+        stdout: String(result.stdout ?? ""),
+        stderr: String(result.stderr ?? ""),
+        exitCode: result.exitCode ?? 0,
       };
-      throw new PjExecutionError(
-        `pj command failed: ${execaError.message}`,
-        execaError.exitCode,
-        execaError.stderr
-      );
+    } catch (error) {
+      throw toExecutionError(error, args, timeoutMs);
     }
-    throw error;
-  }
+  }, { ...execution, signal });
 }
 
 /**
  * Execute pj with stdin input
  *
+ * Timeouts and retries work as in `executePj`.
+ *
  * Note: This function uses `execa` which does NOT use shell by default,
  * preventing command injection vulnerabilities.
  */
 export async function executePjWithStdin(
   args: string[],
   stdin: string,
-  execaOptions?: ExecaOptions
+  execaOptions?: ExecaOptions,
+  execution?: ExecutionOptions
 ): Promise<PjResult> {
-  const binaryManager = getBinaryManager();
-  const binaryPath = await binaryManager.getBinaryPath();
+  const { options, signal, timeoutMs } = runOptions(execution, execaOptions);
+  const binaryPath = await resolveBinary(signal, execution?.binaryPath);
+
+  return withRetry(async () => {
+    try {
+      // execa does not use shell by default, safe from command injection
+      const result = await execa(binaryPath, args, {
+        input: stdin,
+        ...options,
+      });
+
+      return {
+        stdout: String(result.stdout ?? ""),
+        stderr: String(result.stderr ?? ""),
+        exitCode: result.exitCode ?? 0,
+      };
+    } catch (error) {
+      throw toExecutionError(error, args, timeoutMs);
+    }
+  }, { ...execution, signal });
+}
+
+/**
+ * Run pj once, yielding projects as they are written to stdout
+ */
+async function* streamPjOnce(
+  binaryPath: string,
+  args: string[],
+  options: ExecaOptions,
+  timeoutMs: number
+): AsyncGenerator<Project, void, undefined> {
+  // execa does not use shell by default, safe from command injection
+  const subprocess = execa(binaryPath, args, {
+    stdin: "ignore",
+    ...options,
+    buffer: false,
+  });
+
+  const parser = new ProjectStreamParser();
+  let finished = false;
 
   try {
-    // execa does not use shell by default, safe from command injection
-    const result = await execa(binaryPath, args, {
-      input: stdin,
-      timeout: 60000,
-      ...execaOptions,
-    });
+    const stdout = subprocess.stdout;
+    if (stdout) {
+      stdout.setEncoding("utf8");
+      for await (const chunk of stdout) {
+        yield* parser.push(String(chunk));
+      }
+    }
 
-    return {
-      stdout: String(result.stdout ?? ""),
-      stderr: String(result.stderr ?? ""),
-      exitCode: result.exitCode ?? 0,
-    };
-  } catch (error) {
-    if (error instanceof Error && "exitCode" in error) {
-      const execaError = error as Error & {
-        exitCode?: number;
-        stderr?: string;
-      };
-      throw new PjExecutionError(
-        `pj command failed: ${execaError.message}`,
-        execaError.exitCode,
-        execaError.stderr
-      );
+    try {
+      await subprocess;
+    } catch (error) {
+      throw toExecutionError(error, args, timeoutMs);
+    }
+    finished = true;
+    parser.end();
+  } finally {
+    if (!finished) {
+      subprocess.kill();
+      await subprocess.catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Execute pj and yield projects as they are written to stdout
+ *
+ * The child process is killed if the consumer stops iterating early, or when
+ * the run's signal is aborted. Failures are only retried if no project has
+ * been yielded yet, so consumers never see duplicates.
+ *
+ * Note: This function uses `execa` which does NOT use shell by default,
+ * preventing command injection vulnerabilities.
+ */
+export async function* streamPj(
+  args: string[],
+  execaOptions?: ExecaOptions,
+  execution?: ExecutionOptions
+): AsyncGenerator<Project, void, undefined> {
+  const { options, signal, timeoutMs } = runOptions(execution, execaOptions);
+  const binaryPath = await resolveBinary(signal, execution?.binaryPath);
+
+  for (let attempt = 1; ; attempt++) {
+    let yielded = false;
+    try {
+      for await (const project of streamPjOnce(binaryPath, args, options, timeoutMs)) {
+        yielded = true;
+        yield project;
+      }
+      return;
+    } catch (error) {
+      if (yielded || !shouldRetry(error, attempt, execution?.retry)) {
+        throw error;
+      }
+      await waitBeforeRetry(attempt, { ...execution, signal });
     }
-    throw error;
   }
 }
@@ -0,0 +1,87 @@
+import { setTimeout as sleep } from "node:timers/promises";
+
+import type { ExecutionOptions, RetryPolicy } from "../api/types.js";
+import { PjAbortError, PjExecutionError, PjTimeoutError } from "../api/types.js";
+import { toAbortError } from "../api/abort.js";
+
+/** Default time limit for a pj run in milliseconds */
+export const DEFAULT_TIMEOUT_MS = 60000;
+
+const DEFAULT_BACKOFF_MS = 200;
+const DEFAULT_BACKOFF_FACTOR = 2;
+const DEFAULT_MAX_BACKOFF_MS = 5000;
+
+/**
+ * Decide whether a failed attempt should be retried under a policy
+ *
+ * @param error - The error from the failed attempt
+ * @param attempt - The attempt that failed, starting at 1
+ */
+export function shouldRetry(
+  error: unknown,
+  attempt: number,
+  policy?: RetryPolicy
+): boolean {
+  if (!policy || attempt >= (policy.attempts ?? 1) || error instanceof PjAbortError) {
+    return false;
+  }
+  if (policy.shouldRetry) {
+    return policy.shouldRetry(error, attempt);
+  }
+  if (error instanceof PjTimeoutError) {
+    return policy.retryOnTimeout ?? true;
+  }
+  if (error instanceof PjExecutionError && error.exitCode !== undefined) {
+    return policy.exitCodes?.includes(error.exitCode) ?? false;
+  }
+  return false;
+}
+
+/**
+ * Get the delay before retrying after a failed attempt
+ *
+ * @param attempt - The attempt that failed, starting at 1
+ */
+export function retryDelay(attempt: number, policy?: RetryPolicy): number {
+  const base = policy?.backoffMs ?? DEFAULT_BACKOFF_MS;
+  const factor = policy?.backoffFactor ?? DEFAULT_BACKOFF_FACTOR;
+  return Math.min(
+    base * factor ** (attempt - 1),
+    policy?.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS
+  );
+}
+
+/**
+ * Wait before the next attempt, rejecting with PjAbortError if cancelled
+ */
+export async function waitBeforeRetry(
+  attempt: number,
+  execution?: ExecutionOptions
+): Promise<void> {
+  try {
+    await sleep(retryDelay(attempt, execution?.retry), undefined, {
+      signal: execution?.signal,
+    });
+  } catch (error) {
+    throw toAbortError(error, execution?.signal);
+  }
+}
+
+/**
+ * Run an operation, retrying transient failures under the execution's policy
+ */
+export async function withRetry<T>(
+  run: () => Promise<T>,
+  execution?: ExecutionOptions
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (!shouldRetry(error, attempt, execution?.retry)) {
+        throw error;
+      }
+      await waitBeforeRetry(attempt, execution);
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import type { DiscoverOptions, Enrichment, Project } from "../api/types.js";
+import { loadConfig } from "../api/config.js";
+import { throwIfAborted } from "../api/abort.js";
+import { DEFAULT_CONCURRENCY, mapWithConcurrency } from "./concurrency.js";
+import { readGitStatus } from "./git.js";
+import { readManifest } from "./manifest.js";
+import { detectMarkers } from "./markers.js";
+import { findCurrentWorktree, getWorktrees } from "./worktrees.js";
+
+/**
+ * Settings shared by every project in an enrichment run
+ */
+interface EnrichContext {
+  markers: string[];
+  priorities: Record<string, number>;
+  signal: AbortSignal | undefined;
+}
+
+/**
+ * Resolve the marker settings needed by the "markers" enrichment
+ *
+ * Options take precedence over the pj config file.
+ */
+async function resolveContext(
+  enrichments: Enrichment[],
+  options?: DiscoverOptions
+): Promise<EnrichContext> {
+  if (!enrichments.includes("markers")) {
+    return { markers: [], priorities: {}, signal: options?.signal };
+  }
+
+  const config = await loadConfig(options?.configPath);
+  return {
+    markers: options?.markers ?? config.markers,
+    priorities: { ...config.priorities, ...options?.priorities },
+    signal: options?.signal,
+  };
+}
+
+async function enrichWithContext(
+  project: Project,
+  enrichments: Enrichment[],
+  context: EnrichContext
+): Promise<Project> {
+  throwIfAborted(context.signal);
+  const enriched: Project = { ...project };
+
+  if (enrichments.includes("manifest")) {
+    enriched.metadata = await readManifest(project.path, project.marker);
+  }
+  if (enrichments.includes("git")) {
+    enriched.git = await readGitStatus(project.path, context.signal);
+  }
+  if (enrichments.includes("markers")) {
+    enriched.markers = await detectMarkers(
+      project.path,
+      context.markers,
+      context.priorities
+    );
+  }
+  if (enrichments.includes("worktrees")) {
+    const worktrees = await getWorktrees(project.path, context.signal);
+    enriched.worktrees = worktrees.length > 0 ? worktrees : undefined;
+    enriched.worktree = await findCurrentWorktree(project.path, worktrees);
+  }
+
+  return enriched;
+}
+
+/**
+ * Run enrichment steps on a single project
+ *
+ * @param project - Project to enrich
+ * @param enrichments - Enrichment steps to run
+ * @param options - Discovery options supplying markers and priorities
+ * @returns A copy of the project with the enriched fields set
+ */
+export async function enrichProject(
+  project: Project,
+  enrichments: Enrichment[],
+  options?: DiscoverOptions
+): Promise<Project> {
+  const context = await resolveContext(enrichments, options);
+  return enrichWithContext(project, enrichments, context);
+}
+
+/**
+ * Create a function that enriches projects one at a time
+ *
+ * Shared settings are resolved once, which makes this suitable for enriching
+ * a stream of projects.
+ */
+export async function createEnricher(
+  enrichments: Enrichment[],
+  options?: DiscoverOptions
+): Promise<(project: Project) => Promise<Project>> {
+  const context = await resolveContext(enrichments, options);
+  return (project) => enrichWithContext(project, enrichments, context);
+}
+
+/**
+ * Run enrichment steps on a list of projects, preserving order
+ *
+ * At most `options.concurrency` projects are enriched at a time, so
+ * enriching hundreds of repositories doesn't spawn hundreds of git processes
+ * at once.
+ *
+ * @param projects - Projects to enrich
+ * @param enrichments - Enrichment steps to run
+ * @param options - Discovery options supplying markers, priorities and
+ *   concurrency
+ */
+export async function enrichProjects(
+  projects: Project[],
+  enrichments: Enrichment[],
+  options?: DiscoverOptions
+): Promise<Project[]> {
+  if (enrichments.length === 0) {
+    return projects;
+  }
+
+  const context = await resolveContext(enrichments, options);
+  return mapWithConcurrency(
+    projects,
+    options?.concurrency ?? DEFAULT_CONCURRENCY,
+    (p) => enrichWithContext(p, enrichments, context)
+  );
+}
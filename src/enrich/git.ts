@@ -0,0 +1,147 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { execa } from "execa";
+
+import type { GitCommit, GitStatus } from "../api/types.js";
+import { throwIfAborted } from "../api/abort.js";
+
+/** Timeout for each git command in milliseconds */
+const GIT_TIMEOUT = 10000;
+
+/**
+ * Run git in a repository and return stdout
+ *
+ * Note: This function uses `execa` which does NOT use shell by default,
+ * preventing command injection vulnerabilities.
+ */
+export async function runGit(
+  repoPath: string,
+  args: string[],
+  signal?: AbortSignal
+): Promise<string> {
+  // execa does not use shell by default, safe from command injection
+  const result = await execa("git", ["-C", repoPath, ...args], {
+    stdin: "ignore",
+    timeout: GIT_TIMEOUT,
+    // Don't take the index lock, so status never blocks concurrent git use
+    env: { GIT_OPTIONAL_LOCKS: "0" },
+    ...(signal ? { cancelSignal: signal } : {}),
+  });
+  return result.stdout;
+}
+
+/**
+ * Parse the output of `git status --porcelain=v2 --branch`
+ */
+export function parseGitStatus(output: string): Omit<GitStatus, "lastCommit"> {
+  const status: Omit<GitStatus, "lastCommit"> = {
+    branch: undefined,
+    head: undefined,
+    detached: false,
+    dirty: false,
+    staged: 0,
+    modified: 0,
+    conflicted: 0,
+    untracked: 0,
+    upstream: undefined,
+    ahead: undefined,
+    behind: undefined,
+  };
+
+  for (const line of output.split("\n")) {
+    if (line.startsWith("# branch.oid ")) {
+      const oid = line.slice("# branch.oid ".length);
+      status.head = oid === "(initial)" ? undefined : oid;
+    } else if (line.startsWith("# branch.head ")) {
+      const head = line.slice("# branch.head ".length);
+      status.detached = head === "(detached)";
+      status.branch = status.detached ? undefined : head;
+    } else if (line.startsWith("# branch.upstream ")) {
+      status.upstream = line.slice("# branch.upstream ".length);
+    } else if (line.startsWith("# branch.ab ")) {
+      const match = /^# branch\.ab \+(\d+) -(\d+)/.exec(line);
+      if (match?.[1] && match[2]) {
+        status.ahead = parseInt(match[1], 10);
+        status.behind = parseInt(match[2], 10);
+      }
+    } else if (line.startsWith("1 ") || line.startsWith("2 ")) {
+      const staged = line.charAt(2);
+      const unstaged = line.charAt(3);
+      if (staged !== ".") status.staged++;
+      if (unstaged !== ".") status.modified++;
+    } else if (line.startsWith("u ")) {
+      status.conflicted++;
+    } else if (line.startsWith("? ")) {
+      status.untracked++;
+    }
+  }
+
+  status.dirty =
+    status.staged + status.modified + status.conflicted + status.untracked > 0;
+
+  return status;
+}
+
+/**
+ * Parse the output of `git log -1` with NUL-separated fields
+ */
+function parseCommit(output: string): GitCommit | undefined {
+  const [sha, date, author, email, subject] = output.trim().split("\0");
+  if (!sha || !date) {
+    return undefined;
+  }
+  return {
+    sha,
+    date,
+    author: author ?? "",
+    email: email ?? "",
+    subject: subject ?? "",
+  };
+}
+
+/**
+ * Read the git status of a project
+ *
+ * @param projectPath - Absolute path to the project directory
+ * @param signal - Cancels the git commands, rejecting with PjAbortError
+ * @returns The status, or undefined if the project is not a git repository or
+ *   git is unavailable
+ */
+export async function readGitStatus(
+  projectPath: string,
+  signal?: AbortSignal
+): Promise<GitStatus | undefined> {
+  try {
+    await fs.access(path.join(projectPath, ".git"));
+  } catch {
+    return undefined;
+  }
+
+  let status: Omit<GitStatus, "lastCommit">;
+  try {
+    status = parseGitStatus(
+      await runGit(projectPath, ["status", "--porcelain=v2", "--branch"], signal)
+    );
+  } catch {
+    throwIfAborted(signal);
+    return undefined;
+  }
+
+  let lastCommit: GitCommit | undefined;
+  if (status.head) {
+    try {
+      lastCommit = parseCommit(
+        await runGit(
+          projectPath,
+          ["log", "-1", "--format=%H%x00%aI%x00%an%x00%ae%x00%s"],
+          signal
+        )
+      );
+    } catch {
+      throwIfAborted(signal);
+      // Leave lastCommit undefined if the log can't be read
+    }
+  }
+
+  return { ...status, lastCommit };
+}
@@ -0,0 +1,177 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { parse as parseToml } from "smol-toml";
+
+import type { ProjectMetadata } from "../api/types.js";
+
+/**
+ * Parses the contents of a manifest file into project metadata
+ */
+type ManifestParser = (content: string) => ProjectMetadata;
+
+/**
+ * Return a value if it is a string, otherwise undefined
+ */
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Return a value if it is a plain object, otherwise an empty object
+ */
+function asTable(value: unknown): Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Parse package.json metadata
+ */
+export function parsePackageJson(content: string): ProjectMetadata {
+  const pkg = asTable(JSON.parse(content));
+  const deps = {
+    ...asTable(pkg["dependencies"]),
+    ...asTable(pkg["devDependencies"]),
+  };
+
+  return {
+    manifest: "package.json",
+    ecosystem: "node",
+    language: "typescript" in deps ? "TypeScript" : "JavaScript",
+    name: asString(pkg["name"]),
+    version: asString(pkg["version"]),
+    description: asString(pkg["description"]),
+    license: asString(pkg["license"]) ?? asString(asTable(pkg["license"])["type"]),
+  };
+}
+
+/**
+ * Parse Cargo.toml metadata
+ *
+ * Fields inherited from the workspace (`version.workspace = true`) are
+ * reported as undefined.
+ */
+export function parseCargoToml(content: string): ProjectMetadata {
+  const pkg = asTable(asTable(parseToml(content))["package"]);
+
+  return {
+    manifest: "Cargo.toml",
+    ecosystem: "rust",
+    language: "Rust",
+    name: asString(pkg["name"]),
+    version: asString(pkg["version"]),
+    description: asString(pkg["description"]),
+    license: asString(pkg["license"]),
+  };
+}
+
+/**
+ * Parse go.mod metadata
+ *
+ * Go modules only declare a module path, which is reported as the name.
+ */
+export function parseGoMod(content: string): ProjectMetadata {
+  const match = /^\s*module\s+("?)([^\s"]+)\1/m.exec(content);
+
+  return {
+    manifest: "go.mod",
+    ecosystem: "go",
+    language: "Go",
+    name: match?.[2],
+    version: undefined,
+    description: undefined,
+    license: undefined,
+  };
+}
+
+/**
+ * Parse pyproject.toml metadata
+ *
+ * Reads the standard `[project]` table, falling back to `[tool.poetry]`.
+ */
+export function parsePyprojectToml(content: string): ProjectMetadata {
+  const doc = asTable(parseToml(content));
+  const project = asTable(doc["project"]);
+  const poetry = asTable(asTable(doc["tool"])["poetry"]);
+
+  const license = project["license"] ?? poetry["license"];
+
+  return {
+    manifest: "pyproject.toml",
+    ecosystem: "python",
+    language: "Python",
+    name: asString(project["name"]) ?? asString(poetry["name"]),
+    version: asString(project["version"]) ?? asString(poetry["version"]),
+    description:
+      asString(project["description"]) ?? asString(poetry["description"]),
+    license: asString(license) ?? asString(asTable(license)["text"]),
+  };
+}
+
+/**
+ * Parse flake.nix metadata
+ *
+ * Only the top-level `description` string is read; the flake is not evaluated.
+ */
+export function parseFlakeNix(content: string): ProjectMetadata {
+  const match = /^\s*description\s*=\s*"((?:[^"\\]|\\.)*)"\s*;/m.exec(content);
+
+  return {
+    manifest: "flake.nix",
+    ecosystem: "nix",
+    language: "Nix",
+    name: undefined,
+    version: undefined,
+    description: match?.[1]?.replace(/\\(.)/g, "$1"),
+    license: undefined,
+  };
+}
+
+/**
+ * Supported manifests, in the order they are tried when the project's marker
+ * is not itself a manifest
+ */
+const MANIFEST_PARSERS: [string, ManifestParser][] = [
+  ["package.json", parsePackageJson],
+  ["Cargo.toml", parseCargoToml],
+  ["go.mod", parseGoMod],
+  ["pyproject.toml", parsePyprojectToml],
+  ["flake.nix", parseFlakeNix],
+];
+
+/**
+ * Read the manifest metadata for a project
+ *
+ * Uses the manifest matching the project's marker when it is one, otherwise
+ * the first supported manifest present in the project directory.
+ *
+ * @param projectPath - Absolute path to the project directory
+ * @param marker - The marker that identified the project
+ * @returns The metadata, or undefined if no manifest could be read
+ */
+export async function readManifest(
+  projectPath: string,
+  marker: string
+): Promise<ProjectMetadata | undefined> {
+  const own = MANIFEST_PARSERS.find(([manifest]) => manifest === marker);
+  const candidates = own ? [own] : MANIFEST_PARSERS;
+
+  for (const [manifest, parse] of candidates) {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(projectPath, manifest), "utf-8");
+    } catch {
+      continue;
+    }
+
+    try {
+      return parse(content);
+    } catch {
+      // Malformed manifests are treated as missing
+      return undefined;
+    }
+  }
+
+  return undefined;
+}
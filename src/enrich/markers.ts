@@ -0,0 +1,56 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+/**
+ * Order the markers present in a directory by priority
+ *
+ * Higher priorities come first; ties keep the order of the configured
+ * markers.
+ *
+ * @param present - Names of the entries in the directory
+ * @param markers - Configured markers
+ * @param priorities - Marker priorities (higher = more specific)
+ */
+export function orderMarkers(
+  present: Set<string>,
+  markers: string[],
+  priorities: Record<string, number>
+): string[] {
+  return markers
+    .filter((marker) => present.has(marker))
+    .sort((a, b) => (priorities[b] ?? 0) - (priorities[a] ?? 0));
+}
+
+/**
+ * Detect every configured marker present in a project directory
+ *
+ * @returns Markers ordered by priority, highest first
+ */
+export async function detectMarkers(
+  projectPath: string,
+  markers: string[],
+  priorities: Record<string, number>
+): Promise<string[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(projectPath);
+  } catch {
+    return [];
+  }
+
+  const present = new Set(names);
+
+  // Markers with a path separator point below the project directory
+  for (const marker of markers) {
+    if (marker.includes("/") && !present.has(marker)) {
+      try {
+        await fs.access(path.join(projectPath, marker));
+        present.add(marker);
+      } catch {
+        // Marker not present
+      }
+    }
+  }
+
+  return orderMarkers(present, markers, priorities);
+}
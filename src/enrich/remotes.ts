@@ -0,0 +1,170 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import type { GitRemote } from "../api/types.js";
+
+/**
+ * Git directories of a repository checkout
+ */
+export interface GitDirs {
+  /** The checkout's own git directory (`.git`, or the worktree's gitdir) */
+  gitDir: string;
+  /** The directory holding the shared config, refs and objects */
+  commonDir: string;
+}
+
+/**
+ * Locate a checkout's git directories
+ *
+ * Follows the `gitdir:` file that worktrees and submodules have instead of a
+ * `.git` directory, and the `commondir` file that points a worktree at its
+ * main repository.
+ *
+ * @returns The directories, or undefined if the project is not a git checkout
+ */
+export async function resolveGitDirs(projectPath: string): Promise<GitDirs | undefined> {
+  const dotGit = path.join(projectPath, ".git");
+
+  let gitDir: string;
+  try {
+    const stats = await fs.stat(dotGit);
+    if (stats.isDirectory()) {
+      gitDir = dotGit;
+    } else {
+      const match = /^gitdir:\s*(.+)$/m.exec(await fs.readFile(dotGit, "utf-8"));
+      if (!match?.[1]) {
+        return undefined;
+      }
+      gitDir = path.resolve(projectPath, match[1].trim());
+    }
+  } catch {
+    return undefined;
+  }
+
+  let commonDir = gitDir;
+  try {
+    const common = (await fs.readFile(path.join(gitDir, "commondir"), "utf-8")).trim();
+    if (common) {
+      commonDir = path.resolve(gitDir, common);
+    }
+  } catch {
+    // Not a worktree; the git directory holds everything
+  }
+
+  return { gitDir, commonDir };
+}
+
+/** A config section header, e.g. `[remote "origin"]` */
+const SECTION_HEADER = /^\[\s*([A-Za-z0-9.-]+)(?:\s+"((?:[^"\\]|\\.)*)")?\s*\]/;
+
+/**
+ * Unquote a git config value
+ */
+function configValue(raw: string): string {
+  let value = "";
+  let quoted = false;
+  for (let i = 0; i < raw.length; i++) {
+    const ch = raw.charAt(i);
+    if (ch === '"') {
+      quoted = !quoted;
+    } else if (ch === "\\" && i + 1 < raw.length) {
+      i++;
+      value += raw.charAt(i);
+    } else if (!quoted && (ch === "#" || ch === ";")) {
+      break;
+    } else {
+      value += ch;
+    }
+  }
+  return value.trim();
+}
+
+/**
+ * Parse the remotes from a git config file
+ *
+ * Only `url` entries of `[remote "name"]` sections are read. Remotes are
+ * returned in the order they appear.
+ */
+export function parseGitConfigRemotes(content: string): GitRemote[] {
+  const remotes: GitRemote[] = [];
+  let remote: string | undefined;
+
+  for (const line of content.split("\n")) {
+    const trimmed = line.trim();
+    const section = SECTION_HEADER.exec(trimmed);
+    if (section) {
+      remote =
+        section[1]?.toLowerCase() === "remote" && section[2] !== undefined
+          ? section[2].replace(/\\(.)/g, "$1")
+          : undefined;
+      continue;
+    }
+
+    const entry = /^url\s*=(.*)$/i.exec(trimmed);
+    if (remote !== undefined && entry?.[1] !== undefined) {
+      const url = configValue(entry[1]);
+      if (url && !remotes.some((r) => r.name === remote)) {
+        remotes.push({ name: remote, url });
+      }
+    }
+  }
+
+  return remotes;
+}
+
+/**
+ * Read the remotes from the config file in a repository's common git directory
+ */
+export async function readConfigRemotes(commonDir: string): Promise<GitRemote[]> {
+  try {
+    return parseGitConfigRemotes(
+      await fs.readFile(path.join(commonDir, "config"), "utf-8")
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Read the remotes of a git checkout from its config file
+ *
+ * @param projectPath - Absolute path to the project directory
+ * @returns The remotes, or an empty array if the project is not a git checkout
+ */
+export async function readGitRemotes(projectPath: string): Promise<GitRemote[]> {
+  const dirs = await resolveGitDirs(projectPath);
+  return dirs ? readConfigRemotes(dirs.commonDir) : [];
+}
+
+/**
+ * Normalize a git remote URL so clones of the same repository compare equal
+ *
+ * The scheme, user, port and trailing `.git` or `/` are dropped and the result
+ * is lowercased, so `git@github.com:Joe/pj.git`, `ssh://git@github.com/joe/pj`
+ * and `https://github.com/joe/pj.git` all become `github.com/joe/pj`. Local
+ * paths keep their leading `/`.
+ */
+export function normalizeRemoteUrl(url: string): string {
+  let rest = url.trim();
+
+  const scheme = /^([a-z][a-z0-9+.-]*):\/\//i.exec(rest);
+  if (scheme) {
+    rest = rest.slice(scheme[0].length);
+    if (scheme[1]?.toLowerCase() !== "file") {
+      // host[:port]/path, with an optional user
+      rest = rest.replace(/^[^@/]*@/, "").replace(/^([^/:]+):\d*(?=\/)/, "$1");
+    }
+  } else {
+    // scp-like syntax: [user@]host:path
+    const scp = /^(?:[^@/]+@)?([^/:]+):(?!\/\/)(.*)$/.exec(rest);
+    if (scp?.[1] && scp[2] !== undefined && !/^[a-z]$/i.test(scp[1])) {
+      rest = `${scp[1]}/${scp[2]}`;
+    }
+  }
+
+  return rest
+    .replace(/\/+$/, "")
+    .replace(/\.git$/i, "")
+    .replace(/\/+$/, "")
+    .toLowerCase();
+}
@@ -0,0 +1,438 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { parse as parseToml } from "smol-toml";
+import * as yaml from "yaml";
+
+import type {
+  DiscoverOptions,
+  PjConfig,
+  Project,
+  WorkspaceMember,
+  WorkspaceTool,
+} from "../api/types.js";
+import { loadConfig } from "../api/config.js";
+import { expandDirectoryGlob, globToRegExp, toPosixPath } from "../native/glob.js";
+import { DEFAULT_CONCURRENCY, mapWithConcurrency } from "./concurrency.js";
+
+/**
+ * A workspace declaration format
+ *
+ * `parse` returns member globs relative to the workspace root; patterns
+ * prefixed with `!` exclude members.
+ */
+interface WorkspaceSource {
+  tool: WorkspaceTool;
+  file: string;
+  marker: string;
+  parse: (content: string) => string[];
+}
+
+/**
+ * Return a value if it is a plain object, otherwise an empty object
+ */
+function asTable(value: unknown): Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Return the string entries of a value if it is an array
+ */
+function asStrings(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === "string")
+    : [];
+}
+
+/**
+ * Parse npm/yarn workspaces from package.json
+ *
+ * Accepts both the array form and yarn's `{ packages: [...] }` form.
+ */
+export function parsePackageJsonWorkspaces(content: string): string[] {
+  const workspaces = asTable(JSON.parse(content))["workspaces"];
+  return Array.isArray(workspaces)
+    ? asStrings(workspaces)
+    : asStrings(asTable(workspaces)["packages"]);
+}
+
+/**
+ * Parse pnpm workspaces from pnpm-workspace.yaml
+ */
+export function parsePnpmWorkspace(content: string): string[] {
+  return asStrings(asTable(yaml.parse(content))["packages"]);
+}
+
+/**
+ * Parse Cargo workspace members from Cargo.toml
+ */
+export function parseCargoWorkspace(content: string): string[] {
+  const workspace = asTable(asTable(parseToml(content))["workspace"]);
+  return [
+    ...asStrings(workspace["members"]),
+    ...asStrings(workspace["exclude"]).map((p) => `!${p}`),
+  ];
+}
+
+/**
+ * Parse the modules used by a go.work file
+ *
+ * Handles both single `use ./dir` directives and `use ( ... )` blocks.
+ */
+export function parseGoWork(content: string): string[] {
+  const members: string[] = [];
+  let inBlock = false;
+
+  for (const raw of content.split("\n")) {
+    const line = raw.replace(/\/\/.*$/, "").trim();
+    if (inBlock) {
+      if (line === ")") {
+        inBlock = false;
+      } else if (line) {
+        members.push(line.replace(/^"(.*)"$/, "$1"));
+      }
+      continue;
+    }
+
+    const match = /^use\s+(.+)$/.exec(line);
+    if (match?.[1] === "(") {
+      inBlock = true;
+    } else if (match?.[1]) {
+      members.push(match[1].replace(/^"(.*)"$/, "$1"));
+    }
+  }
+
+  return members;
+}
+
+/**
+ * Parse uv workspace members from pyproject.toml
+ */
+export function parseUvWorkspace(content: string): string[] {
+  const doc = asTable(parseToml(content));
+  const workspace = asTable(asTable(asTable(doc["tool"])["uv"])["workspace"]);
+  return [
+    ...asStrings(workspace["members"]),
+    ...asStrings(workspace["exclude"]).map((p) => `!${p}`),
+  ];
+}
+
+/**
+ * Parse poetry path dependencies from pyproject.toml
+ *
+ * Poetry has no workspace table, so monorepos are declared as path
+ * dependencies of the root project, including those in dependency groups.
+ */
+export function parsePoetryWorkspace(content: string): string[] {
+  const poetry = asTable(asTable(asTable(parseToml(content))["tool"])["poetry"]);
+  const tables = [
+    poetry["dependencies"],
+    poetry["dev-dependencies"],
+    ...Object.values(asTable(poetry["group"])).map((g) => asTable(g)["dependencies"]),
+  ];
+
+  const members: string[] = [];
+  for (const table of tables) {
+    for (const dependency of Object.values(asTable(table))) {
+      const dependencyPath = asTable(dependency)["path"];
+      if (typeof dependencyPath === "string") {
+        members.push(dependencyPath);
+      }
+    }
+  }
+  return members;
+}
+
+/**
+ * Supported workspace declarations, in the order they are read
+ */
+const WORKSPACE_SOURCES: WorkspaceSource[] = [
+  {
+    tool: "npm",
+    file: "package.json",
+    marker: "package.json",
+    parse: parsePackageJsonWorkspaces,
+  },
+  {
+    tool: "pnpm",
+    file: "pnpm-workspace.yaml",
+    marker: "package.json",
+    parse: parsePnpmWorkspace,
+  },
+  { tool: "cargo", file: "Cargo.toml", marker: "Cargo.toml", parse: parseCargoWorkspace },
+  { tool: "go", file: "go.work", marker: "go.mod", parse: parseGoWork },
+  { tool: "uv", file: "pyproject.toml", marker: "pyproject.toml", parse: parseUvWorkspace },
+  {
+    tool: "poetry",
+    file: "pyproject.toml",
+    marker: "pyproject.toml",
+    parse: parsePoetryWorkspace,
+  },
+];
+
+/**
+ * Normalize a member pattern to a root-relative posix path
+ */
+function normalizePattern(pattern: string): string {
+  return toPosixPath(pattern).replace(/^(\.\/)+/, "").replace(/\/+$/, "");
+}
+
+/**
+ * Expand member patterns into member directories containing the marker
+ */
+async function expandMembers(
+  rootPath: string,
+  patterns: string[],
+  source: WorkspaceSource
+): Promise<WorkspaceMember[]> {
+  const includes = patterns.filter((p) => !p.startsWith("!"));
+  const excludes = patterns
+    .filter((p) => p.startsWith("!"))
+    .map((p) => globToRegExp(normalizePattern(p.slice(1))));
+
+  const members: WorkspaceMember[] = [];
+  for (const pattern of includes) {
+    for (const dir of await expandDirectoryGlob(normalizePattern(pattern), rootPath)) {
+      const relative = toPosixPath(path.relative(rootPath, dir));
+      // Members must live inside the workspace root
+      if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+        continue;
+      }
+      if (excludes.some((regex) => regex.test(relative))) {
+        continue;
+      }
+      try {
+        await fs.access(path.join(dir, source.marker));
+      } catch {
+        continue;
+      }
+      members.push({ path: dir, marker: source.marker, tool: source.tool });
+    }
+  }
+  return members;
+}
+
+/**
+ * Read the members declared by a project's workspace configuration
+ *
+ * Reads npm/yarn `workspaces`, pnpm-workspace.yaml, Cargo `[workspace]`,
+ * go.work, `[tool.uv.workspace]` and poetry path dependencies. Only member
+ * directories inside the root that contain their manifest are returned.
+ *
+ * @param rootPath - Absolute path to the potential workspace root
+ * @returns Members in declaration order, or an empty array if the project
+ *   is not a workspace root
+ */
+export async function readWorkspaceMembers(
+  rootPath: string
+): Promise<WorkspaceMember[]> {
+  const members = new Map<string, WorkspaceMember>();
+  const contents = new Map<string, string | undefined>();
+
+  for (const source of WORKSPACE_SOURCES) {
+    if (!contents.has(source.file)) {
+      try {
+        contents.set(
+          source.file,
+          await fs.readFile(path.join(rootPath, source.file), "utf-8")
+        );
+      } catch {
+        contents.set(source.file, undefined);
+      }
+    }
+    const content = contents.get(source.file);
+    if (content === undefined) {
+      continue;
+    }
+
+    let patterns: string[];
+    try {
+      patterns = source.parse(content);
+    } catch {
+      // Malformed manifests are treated as declaring no workspace
+      continue;
+    }
+
+    for (const member of await expandMembers(rootPath, patterns, source)) {
+      if (!members.has(member.path)) {
+        members.set(member.path, member);
+      }
+    }
+  }
+
+  return [...members.values()];
+}
+
+/**
+ * Build the project for a workspace member
+ *
+ * A project discovered at the member path is reused. Otherwise marker
+ * presentation is copied from a discovered project with the same marker, or
+ * taken from the config file.
+ */
+function toMemberProject(
+  root: Project,
+  member: WorkspaceMember,
+  discovered: Project | undefined,
+  template: Project | undefined,
+  config: PjConfig
+): Project {
+  if (discovered) {
+    return { ...discovered, workspaceRoot: root.path };
+  }
+
+  return {
+    path: member.path,
+    displayPath:
+      root.displayPath !== undefined
+        ? path.join(root.displayPath, path.relative(root.path, member.path))
+        : undefined,
+    name: path.basename(member.path),
+    marker: member.marker,
+    label: template?.label,
+    displayLabel: template?.displayLabel,
+    icon: template?.icon ?? config.icons[member.marker],
+    ansiIcon: template?.ansiIcon,
+    color: template?.color ?? config.colors[member.marker],
+    priority: template?.priority,
+    isWorktree: undefined,
+    worktreeParent: undefined,
+    workspaceRoot: root.path,
+  };
+}
+
+/**
+ * Index the first discovered project for each marker
+ */
+function indexTemplates(projects: Project[]): Map<string, Project> {
+  const templates = new Map<string, Project>();
+  for (const project of projects) {
+    if (!templates.has(project.marker)) {
+      templates.set(project.marker, project);
+    }
+  }
+  return templates;
+}
+
+/**
+ * Expand monorepo workspaces into member projects
+ *
+ * Members are listed directly after their root with `workspaceRoot` set.
+ * Members that were also discovered on their own (with nested discovery) are
+ * moved under their root instead of being listed twice.
+ *
+ * @param projects - Discovered projects
+ * @param options - Discovery options (for `configPath` and `concurrency`)
+ */
+export async function expandWorkspaces(
+  projects: Project[],
+  options?: DiscoverOptions
+): Promise<Project[]> {
+  const memberLists = await mapWithConcurrency(
+    projects,
+    options?.concurrency ?? DEFAULT_CONCURRENCY,
+    (project) => readWorkspaceMembers(project.path)
+  );
+  if (memberLists.every((members) => members.length === 0)) {
+    return projects;
+  }
+
+  const config = await loadConfig(options?.configPath);
+  const byPath = new Map(projects.map((p) => [p.path, p]));
+  const templates = indexTemplates(projects);
+
+  // Map each member to its root, so members aren't also listed on their own
+  const claimedBy = new Map<string, string>();
+  projects.forEach((project, i) => {
+    for (const member of memberLists[i] ?? []) {
+      if (member.path !== project.path && !claimedBy.has(member.path)) {
+        claimedBy.set(member.path, project.path);
+      }
+    }
+  });
+  const isClaimed = (projectPath: string): boolean => {
+    const root = claimedBy.get(projectPath);
+    // A root that is itself claimed (a cycle) keeps its own position
+    return root !== undefined && claimedBy.get(root) !== projectPath;
+  };
+
+  const result: Project[] = [];
+  const emitted = new Set<string>();
+
+  projects.forEach((project, i) => {
+    if (emitted.has(project.path) || isClaimed(project.path)) {
+      return;
+    }
+    emitted.add(project.path);
+    result.push(project);
+
+    for (const member of memberLists[i] ?? []) {
+      if (emitted.has(member.path)) {
+        continue;
+      }
+      emitted.add(member.path);
+      result.push(
+        toMemberProject(
+          project,
+          member,
+          byPath.get(member.path),
+          templates.get(member.marker),
+          config
+        )
+      );
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Expand monorepo workspaces in a stream of projects
+ *
+ * Each root is followed by its members. Projects already yielded as members
+ * are skipped when they arrive on their own; members that arrive before their
+ * root are yielded as plain projects.
+ *
+ * @param projects - Discovered projects, in discovery order
+ * @param options - Discovery options (for `configPath`)
+ */
+export async function* expandWorkspaceStream(
+  projects: AsyncIterable<Project>,
+  options?: DiscoverOptions
+): AsyncIterable<Project> {
+  const emitted = new Set<string>();
+  const templates = new Map<string, Project>();
+  let config: PjConfig | undefined;
+
+  for await (const project of projects) {
+    if (emitted.has(project.path)) {
+      continue;
+    }
+    emitted.add(project.path);
+    if (!templates.has(project.marker)) {
+      templates.set(project.marker, project);
+    }
+    yield project;
+
+    const members = await readWorkspaceMembers(project.path);
+    if (members.length === 0) {
+      continue;
+    }
+
+    config ??= await loadConfig(options?.configPath);
+    for (const member of members) {
+      if (emitted.has(member.path)) {
+        continue;
+      }
+      emitted.add(member.path);
+      yield toMemberProject(
+        project,
+        member,
+        undefined,
+        templates.get(member.marker),
+        config
+      );
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import type { GitWorktree, Project } from "../api/types.js";
+import { throwIfAborted } from "../api/abort.js";
+import { runGit } from "./git.js";
+
+/** HEAD reported for worktrees on an unborn branch */
+const NULL_SHA = /^0+$/;
+
+/**
+ * Parse the output of `git worktree list --porcelain`
+ *
+ * The first worktree listed is the main worktree.
+ */
+export function parseWorktreeList(output: string): GitWorktree[] {
+  const worktrees: GitWorktree[] = [];
+  let current: GitWorktree | undefined;
+
+  for (const line of output.split("\n")) {
+    if (line.startsWith("worktree ")) {
+      current = {
+        path: line.slice("worktree ".length),
+        head: undefined,
+        branch: undefined,
+        main: worktrees.length === 0,
+        bare: false,
+        detached: false,
+        locked: false,
+        lockReason: undefined,
+        prunable: false,
+        prunableReason: undefined,
+      };
+      worktrees.push(current);
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+
+    const space = line.indexOf(" ");
+    const key = space === -1 ? line : line.slice(0, space);
+    const value = space === -1 ? undefined : line.slice(space + 1);
+
+    switch (key) {
+      case "HEAD":
+        current.head = value && !NULL_SHA.test(value) ? value : undefined;
+        break;
+      case "branch":
+        current.branch = value?.replace(/^refs\/heads\//, "");
+        break;
+      case "bare":
+        current.bare = true;
+        break;
+      case "detached":
+        current.detached = true;
+        break;
+      case "locked":
+        current.locked = true;
+        current.lockReason = value === "" ? undefined : value;
+        break;
+      case "prunable":
+        current.prunable = true;
+        current.prunableReason = value === "" ? undefined : value;
+        break;
+    }
+  }
+
+  return worktrees;
+}
+
+/**
+ * List the git worktrees of a project's repository
+ *
+ * Works from the main worktree or any linked worktree; the result is the
+ * same, with the main worktree first.
+ *
+ * @param project - Project or absolute project path
+ * @param signal - Cancels the git command, rejecting with PjAbortError
+ * @returns The worktrees, or an empty array if the project is not a git
+ *   repository or git is unavailable
+ */
+export async function getWorktrees(
+  project: Project | string,
+  signal?: AbortSignal
+): Promise<GitWorktree[]> {
+  const projectPath = typeof project === "string" ? project : project.path;
+  try {
+    await fs.access(path.join(projectPath, ".git"));
+  } catch {
+    return [];
+  }
+
+  try {
+    return parseWorktreeList(
+      await runGit(projectPath, ["worktree", "list", "--porcelain"], signal)
+    );
+  } catch {
+    throwIfAborted(signal);
+    return [];
+  }
+}
+
+/**
+ * Resolve symlinks in a path, falling back to the path itself
+ */
+async function realPath(p: string): Promise<string> {
+  try {
+    return await fs.realpath(p);
+  } catch {
+    return path.resolve(p);
+  }
+}
+
+/**
+ * Find a project's own entry in its repository's worktree list
+ */
+export async function findCurrentWorktree(
+  projectPath: string,
+  worktrees: GitWorktree[]
+): Promise<GitWorktree | undefined> {
+  const resolved = await realPath(projectPath);
+  for (const worktree of worktrees) {
+    if (worktree.path === projectPath || (await realPath(worktree.path)) === resolved) {
+      return worktree;
+    }
+  }
+  return undefined;
+}
@@ -19,18 +19,79 @@
  */
 
 // Main class
-export { Pj } from "./api/pj.js";
+export { Pj, type PjEvents } from "./api/pj.js";
 
 // Standalone discovery functions
 export {
   discover,
+  discoverStream,
   discoverFromPaths,
   findProject,
   findProjects,
+  queryProjects,
+  searchProjects,
   discoverByMarker,
   countByMarker,
+  discoverTree,
+  findDuplicates,
 } from "./api/discover.js";
 
+// Project trees
+export {
+  buildProjectTree,
+  walkProjectTree,
+  flattenProjectTree,
+  pruneProjectTree,
+} from "./api/tree.js";
+
+// Watching
+export {
+  ProjectWatcher,
+  watchProjects,
+  type ProjectWatcherEvents,
+} from "./api/watch.js";
+export { ConfigWatcher } from "./api/config-watcher.js";
+
+// Query language
+export {
+  parseProjectQuery,
+  createProjectFilter,
+  queryNeedsGit,
+} from "./api/query.js";
+
+// Fuzzy matching
+export { fuzzyMatch, scoreProject, rankProjects } from "./api/fuzzy.js";
+
+// Frecency tracking
+export {
+  FrecencyStore,
+  getFrecencyStore,
+  frecencyScore,
+  sortByFrecency,
+} from "./api/frecency.js";
+
+// Project enrichment
+export {
+  enrichProject,
+  enrichProjects,
+  createEnricher,
+} from "./enrich/enricher.js";
+export { readManifest } from "./enrich/manifest.js";
+export { readGitStatus, parseGitStatus } from "./enrich/git.js";
+export { getWorktrees, parseWorktreeList } from "./enrich/worktrees.js";
+export {
+  readGitRemotes,
+  parseGitConfigRemotes,
+  normalizeRemoteUrl,
+} from "./enrich/remotes.js";
+export { groupDuplicates } from "./api/duplicates.js";
+export { detectMarkers, orderMarkers } from "./enrich/markers.js";
+export {
+  readWorkspaceMembers,
+  expandWorkspaces,
+  expandWorkspaceStream,
+} from "./enrich/workspaces.js";
+
 // Configuration functions
 export {
   loadConfig,
@@ -39,8 +100,31 @@ export {
   getConfigPath,
   expandPath,
   expandConfigPaths,
+  resolveConfigPaths,
+  expandSearchPaths,
+  interpolateEnv,
+  mergeConfig,
+  readConfigFile,
   DEFAULT_CONFIG,
 } from "./api/config.js";
+export {
+  resolveConfig,
+  explainConfig,
+  loadConfigLayers,
+  getConfigFiles,
+  findProjectConfig,
+  readEnvConfig,
+  writeProfileConfig,
+  CONFIG_ENV_VARS,
+  PROFILE_ENV_VAR,
+} from "./api/config-layers.js";
+export {
+  validateConfig,
+  validateConfigContent,
+  formatConfigDiagnostic,
+} from "./api/config-validation.js";
+export { ConfigEditor, editConfig, type ConfigOption } from "./api/config-editor.js";
+export { migrateConfig } from "./api/config-migration.js";
 
 // Cache functions
 export { clearCache, getCacheInfo, getCachePath } from "./api/cache.js";
@@ -55,6 +139,8 @@ export {
   getBinaryName,
   getCacheDir,
   getBinaryCacheDir,
+  getFrecencyPath,
+  getProfileCacheHome,
 } from "./binary/constants.js";
 
 // Version utilities
@@ -70,8 +156,53 @@ export {
 // Types
 export type {
   Project,
+  ProjectMetadata,
+  GitStatus,
+  GitCommit,
+  GitWorktree,
+  GitRemote,
+  DuplicateGroup,
+  Enrichment,
   DiscoverOptions,
+  FindProjectsOptions,
+  MarkerGroupOptions,
+  WatchOptions,
+  WatchConfigOptions,
+  WorkspaceMember,
+  WorkspaceTool,
+  ProjectQuery,
+  ProjectQueryTerm,
+  ProjectQueryField,
+  ProjectQueryFlag,
+  ProjectTreeNode,
+  ProjectTreeRoot,
+  ProjectTreeDirectory,
+  ProjectTreeProject,
+  ProjectTreeWorktree,
+  ProjectEvent,
+  FuzzyMatch,
+  MatchRange,
+  ProjectMatch,
+  FrecencyEntry,
   PjConfig,
+  PjProfile,
+  MarkerDefinition,
+  PjOptions,
+  SearchPath,
+  SearchPathConfig,
+  ProjectSettings,
+  ConfigDiagnostic,
+  ConfigValidationOptions,
+  ConfigMigrationConflict,
+  ConfigMigrationResult,
+  MigrateConfigOptions,
+  LoadConfigOptions,
+  ConfigLayerName,
+  ConfigLayer,
+  ResolveConfigOptions,
+  ConfigValueSource,
+  RetryPolicy,
+  ExecutionOptions,
   CacheInfo,
   BinaryStatus,
   BinaryOptions,
@@ -86,6 +217,10 @@ export {
   PjBinaryError,
   PjExecutionError,
   PjConfigError,
+  PjConfigValidationError,
+  PjQueryError,
+  PjAbortError,
+  PjTimeoutError,
 } from "./api/types.js";
 
 // CLI execution utilities (for advanced use)
@@ -93,5 +228,7 @@ export {
   buildArgs,
   parseJsonOutput,
   executePj,
+  streamPj,
+  ProjectStreamParser,
   type PjResult,
 } from "./cli/executor.js";
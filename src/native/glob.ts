@@ -0,0 +1,237 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+/**
+ * Characters that give a pattern glob semantics
+ */
+const GLOB_MAGIC = /[*?[{]/;
+
+/**
+ * Check whether a string contains glob syntax
+ */
+export function hasGlobMagic(pattern: string): boolean {
+  return GLOB_MAGIC.test(pattern);
+}
+
+/**
+ * Escape a literal string for use in a regular expression
+ */
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+/**
+ * Find the index of the brace closing the one at `start`, honoring nesting
+ */
+function findClosingBrace(glob: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < glob.length; i++) {
+    const ch = glob.charAt(i);
+    if (ch === "\\") {
+      i++;
+    } else if (ch === "{") {
+      depth++;
+    } else if (ch === "}") {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split brace contents on top-level commas
+ */
+function splitAlternatives(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (let i = 0; i < body.length; i++) {
+    const ch = body.charAt(i);
+    if (ch === "\\") {
+      current += ch + body.charAt(i + 1);
+      i++;
+      continue;
+    }
+    if (ch === "{") depth++;
+    if (ch === "}") depth--;
+    if (ch === "," && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+
+  return parts;
+}
+
+/**
+ * Convert a glob pattern to regular expression source
+ *
+ * Supports `*` and `?` (never matching `/`), `**` as a whole path segment
+ * (matching any number of directories), `[...]` character classes (with `!`
+ * or `^` negation) and `{a,b}` alternatives.
+ */
+export function globToRegExpSource(glob: string): string {
+  let re = "";
+
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob.charAt(i);
+
+    switch (ch) {
+      case "*": {
+        if (glob.charAt(i + 1) !== "*") {
+          re += "[^/]*";
+          break;
+        }
+        const atSegmentStart = i === 0 || glob.charAt(i - 1) === "/";
+        const next = glob.charAt(i + 2);
+        if (atSegmentStart && next === "/") {
+          re += "(?:.*/)?";
+          i += 2;
+        } else if (atSegmentStart && next === "") {
+          re += ".*";
+          i += 1;
+        } else {
+          re += "[^/]*";
+          i += 1;
+        }
+        break;
+      }
+      case "?":
+        re += "[^/]";
+        break;
+      case "[": {
+        const close = glob.indexOf("]", i + 2);
+        if (close === -1) {
+          re += "\\[";
+          break;
+        }
+        let body = glob.slice(i + 1, close).replace(/\\/g, "\\\\");
+        if (body.startsWith("!") || body.startsWith("^")) {
+          body = `^${body.slice(1)}`;
+        }
+        re += `[${body}]`;
+        i = close;
+        break;
+      }
+      case "{": {
+        const close = findClosingBrace(glob, i);
+        if (close === -1) {
+          re += "\\{";
+          break;
+        }
+        const alternatives = splitAlternatives(glob.slice(i + 1, close));
+        re += `(?:${alternatives.map(globToRegExpSource).join("|")})`;
+        i = close;
+        break;
+      }
+      case "\\":
+        re += escapeRegExp(glob.charAt(i + 1));
+        i++;
+        break;
+      default:
+        re += escapeRegExp(ch);
+    }
+  }
+
+  return re;
+}
+
+/**
+ * Convert a glob pattern to a regular expression matching the whole string
+ */
+export function globToRegExp(glob: string): RegExp {
+  return new RegExp(`^${globToRegExpSource(glob)}$`);
+}
+
+/**
+ * Convert a path to forward slashes for glob matching
+ */
+export function toPosixPath(p: string): string {
+  return p.replace(/\\/g, "/");
+}
+
+/**
+ * Directories never descended into when expanding globs
+ */
+const SKIPPED_DIRECTORIES = new Set(["node_modules"]);
+
+/**
+ * List the subdirectories of a directory that glob wildcards may match
+ *
+ * Hidden directories and node_modules are skipped, like most package managers
+ * do when expanding workspace globs.
+ */
+async function listGlobDirectories(dir: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    return entries
+      .filter(
+        (e) =>
+          e.isDirectory() && !e.name.startsWith(".") && !SKIPPED_DIRECTORIES.has(e.name)
+      )
+      .map((e) => e.name)
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+async function expandSegments(dir: string, segments: string[]): Promise<string[]> {
+  const [segment, ...rest] = segments;
+  if (segment === undefined) {
+    try {
+      return (await fs.stat(dir)).isDirectory() ? [dir] : [];
+    } catch {
+      return [];
+    }
+  }
+
+  if (segment === "**") {
+    const results = await expandSegments(dir, rest);
+    for (const child of await listGlobDirectories(dir)) {
+      results.push(...(await expandSegments(path.join(dir, child), segments)));
+    }
+    return results;
+  }
+
+  if (!hasGlobMagic(segment)) {
+    return expandSegments(path.join(dir, segment), rest);
+  }
+
+  const regex = globToRegExp(segment);
+  const results: string[] = [];
+  for (const child of await listGlobDirectories(dir)) {
+    if (regex.test(child)) {
+      results.push(...(await expandSegments(path.join(dir, child), rest)));
+    }
+  }
+  return results;
+}
+
+/**
+ * Expand a glob pattern into the existing directories it matches
+ *
+ * Relative patterns are resolved against `base`. Patterns without glob syntax
+ * resolve to the single directory they name, if it exists.
+ *
+ * @returns Absolute directory paths, in sorted walk order without duplicates
+ */
+export async function expandDirectoryGlob(
+  pattern: string,
+  base: string
+): Promise<string[]> {
+  const absolute = path.resolve(base, pattern);
+  const { root } = path.parse(absolute);
+  const segments = toPosixPath(absolute.slice(root.length))
+    .split("/")
+    .filter((s) => s !== "");
+
+  return [...new Set(await expandSegments(root, segments))];
+}
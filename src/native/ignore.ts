@@ -0,0 +1,113 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import { globToRegExpSource, toPosixPath } from "./glob.js";
+
+/**
+ * A single rule from a .gitignore file
+ */
+export interface IgnoreRule {
+  /** Directory containing the .gitignore file the rule came from */
+  base: string;
+  /** Regular expression matched against the path relative to `base` */
+  regex: RegExp;
+  /** Whether the rule re-includes previously ignored paths (`!pattern`) */
+  negate: boolean;
+  /** Whether the rule only applies to directories (`pattern/`) */
+  dirOnly: boolean;
+}
+
+/**
+ * Parse the contents of a .gitignore file
+ *
+ * @param content - File contents
+ * @param base - Directory containing the file
+ */
+export function parseIgnoreFile(content: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped
+    let line = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) {
+      continue;
+    }
+
+    let negate = false;
+    if (line.startsWith("!")) {
+      negate = true;
+      line = line.slice(1);
+    } else if (line.startsWith("\\!") || line.startsWith("\\#")) {
+      line = line.slice(1);
+    }
+
+    let dirOnly = false;
+    if (line.endsWith("/")) {
+      dirOnly = true;
+      line = line.slice(0, -1);
+    }
+
+    // A slash anywhere but the end anchors the pattern to the base directory
+    const anchored = line.includes("/");
+    if (line.startsWith("/")) {
+      line = line.slice(1);
+    }
+    if (!line) {
+      continue;
+    }
+
+    const source = globToRegExpSource(line);
+    const regex = new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`);
+
+    rules.push({ base, regex, negate, dirOnly });
+  }
+
+  return rules;
+}
+
+/**
+ * Read and parse the .gitignore file in a directory
+ *
+ * @returns The parsed rules, or an empty array if the file can't be read
+ */
+export async function readIgnoreFile(dir: string): Promise<IgnoreRule[]> {
+  try {
+    const content = await fs.readFile(path.join(dir, ".gitignore"), "utf-8");
+    return parseIgnoreFile(content, dir);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Check whether a path is ignored by a list of rules
+ *
+ * Rules are evaluated in order and the last matching rule wins, so rules from
+ * deeper .gitignore files should come after those from their ancestors.
+ *
+ * @param rules - Rules that apply to the path
+ * @param absPath - Absolute path to check
+ * @param isDir - Whether the path is a directory
+ */
+export function isIgnored(
+  rules: IgnoreRule[],
+  absPath: string,
+  isDir: boolean
+): boolean {
+  let ignored = false;
+
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) {
+      continue;
+    }
+    const relative = toPosixPath(path.relative(rule.base, absPath));
+    if (!relative || relative.startsWith("..")) {
+      continue;
+    }
+    if (rule.regex.test(relative)) {
+      ignored = !rule.negate;
+    }
+  }
+
+  return ignored;
+}
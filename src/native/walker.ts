@@ -0,0 +1,390 @@
+import * as fs from "node:fs/promises";
+import type { Dirent } from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import type { DiscoverOptions, Project } from "../api/types.js";
+import { expandPath, loadConfig } from "../api/config.js";
+import { globToRegExp, toPosixPath } from "./glob.js";
+import { isIgnored, readIgnoreFile, type IgnoreRule } from "./ignore.js";
+import { orderMarkers } from "../enrich/markers.js";
+import { throwIfAborted } from "../api/abort.js";
+import { searchPathOf } from "../api/search-paths.js";
+
+/**
+ * ANSI foreground color codes for marker color names
+ */
+const ANSI_COLORS: Record<string, number> = {
+  black: 30,
+  red: 31,
+  green: 32,
+  yellow: 33,
+  blue: 34,
+  magenta: 35,
+  cyan: 36,
+  white: 37,
+  "bright-black": 90,
+  "bright-red": 91,
+  "bright-green": 92,
+  "bright-yellow": 93,
+  "bright-blue": 94,
+  "bright-magenta": 95,
+  "bright-cyan": 96,
+  "bright-white": 97,
+};
+
+/**
+ * Fully resolved settings for a native walk
+ */
+interface WalkSettings {
+  roots: string[];
+  markers: string[];
+  isExcluded: (dir: string) => boolean;
+  maxDepth: number;
+  noIgnore: boolean;
+  nested: boolean;
+  worktrees: boolean | undefined;
+  priorities: Record<string, number>;
+  icons: Record<string, string>;
+  colors: Record<string, string>;
+  showIcons: boolean;
+  shorten: boolean;
+  signal: AbortSignal | undefined;
+}
+
+/**
+ * Resolve discovery options against the pj config file
+ *
+ * Options take precedence over the config file, mirroring how the binary
+ * treats its command-line flags.
+ */
+async function resolveSettings(options?: DiscoverOptions): Promise<WalkSettings> {
+  const config = await loadConfig(options?.configPath);
+
+  return {
+    roots: (options?.paths ?? config.paths).map((p) =>
+      path.resolve(expandPath(searchPathOf(p)))
+    ),
+    markers: options?.markers ?? config.markers,
+    isExcluded: createExcludeMatcher(options?.excludes ?? config.exclude),
+    maxDepth: options?.maxDepth ?? config.maxDepth,
+    noIgnore: options?.noIgnore ?? config.noIgnore,
+    nested: options?.nested ?? !config.noNested,
+    worktrees: options?.worktrees,
+    priorities: { ...config.priorities, ...options?.priorities },
+    icons: config.icons,
+    colors: config.colors,
+    showIcons: options?.icons ?? false,
+    shorten: options?.shorten ?? false,
+    signal: options?.signal,
+  };
+}
+
+/**
+ * Pick the highest priority marker present in a directory
+ *
+ * Ties are broken by the order of the configured markers.
+ */
+function pickMarker(names: Set<string>, settings: WalkSettings): string | undefined {
+  return orderMarkers(names, settings.markers, settings.priorities)[0];
+}
+
+/**
+ * Create a matcher that checks directories against exclude patterns
+ *
+ * Patterns without a slash match the directory name; patterns with a slash
+ * match the full path. Both may use glob syntax.
+ */
+export function createExcludeMatcher(patterns: string[]): (dir: string) => boolean {
+  const matchers = patterns.map((pattern) => {
+    const expanded = toPosixPath(expandPath(pattern));
+    return { regex: globToRegExp(expanded), fullPath: expanded.includes("/") };
+  });
+
+  return (dir) => {
+    const name = path.basename(dir);
+    const full = toPosixPath(dir);
+    return matchers.some(({ regex, fullPath }) => regex.test(fullPath ? full : name));
+  };
+}
+
+/**
+ * Resolve the parent repository of a worktree from its .git file
+ *
+ * @returns The parent repository path, or undefined if the .git file does not
+ *   point into another repository's worktrees directory
+ */
+async function readWorktreeParent(dir: string): Promise<string | undefined> {
+  try {
+    const content = await fs.readFile(path.join(dir, ".git"), "utf-8");
+    const match = /^gitdir:\s*(.+)$/m.exec(content);
+    if (!match?.[1]) {
+      return undefined;
+    }
+    const gitdir = toPosixPath(path.resolve(dir, match[1].trim()));
+    const index = gitdir.lastIndexOf("/.git/worktrees/");
+    return index === -1 ? undefined : path.resolve(gitdir.slice(0, index));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * List the worktrees registered in a repository's .git directory
+ */
+async function listRegisteredWorktrees(repo: string): Promise<string[]> {
+  const worktreesDir = path.join(repo, ".git", "worktrees");
+  let entries: Dirent[];
+  try {
+    entries = await fs.readdir(worktreesDir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const worktrees: string[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory()) {
+      continue;
+    }
+    try {
+      const gitdir = await fs.readFile(
+        path.join(worktreesDir, entry.name, "gitdir"),
+        "utf-8"
+      );
+      const worktree = path.dirname(path.resolve(worktreesDir, entry.name, gitdir.trim()));
+      await fs.access(worktree);
+      worktrees.push(worktree);
+    } catch {
+      // Stale worktree registration
+    }
+  }
+
+  return worktrees;
+}
+
+/**
+ * Read the entry names of a directory
+ */
+async function readNames(dir: string): Promise<Set<string>> {
+  try {
+    return new Set(await fs.readdir(dir));
+  } catch {
+    return new Set();
+  }
+}
+
+/**
+ * Replace the home directory prefix with ~
+ */
+function shortenPath(p: string): string {
+  const home = os.homedir();
+  if (p === home) {
+    return "~";
+  }
+  if (p.startsWith(home + path.sep)) {
+    return `~${p.slice(home.length)}`;
+  }
+  return p;
+}
+
+/**
+ * Build a project in the same shape as parseJsonOutput
+ */
+async function createProject(
+  dir: string,
+  marker: string,
+  names: Set<string>,
+  settings: WalkSettings,
+  knownParent?: string
+): Promise<Project> {
+  let isWorktree: boolean | undefined;
+  let worktreeParent: string | undefined;
+
+  if (knownParent !== undefined) {
+    isWorktree = true;
+    worktreeParent = knownParent;
+  } else if (names.has(".git")) {
+    worktreeParent = await readWorktreeParent(dir);
+    isWorktree = worktreeParent !== undefined;
+  }
+
+  const icon = settings.icons[marker];
+  const color = settings.colors[marker];
+  const ansiCode = color !== undefined ? ANSI_COLORS[color] : undefined;
+
+  return {
+    path: dir,
+    displayPath: settings.shorten ? shortenPath(dir) : undefined,
+    name: path.basename(dir),
+    marker,
+    label: undefined,
+    displayLabel: undefined,
+    icon,
+    ansiIcon:
+      settings.showIcons && icon !== undefined && ansiCode !== undefined
+        ? `\x1b[${String(ansiCode)}m${icon}\x1b[0m`
+        : undefined,
+    color,
+    priority: undefined, // not included in JSON output
+    isWorktree,
+    worktreeParent,
+  };
+}
+
+/**
+ * Recursively walk a directory, yielding projects
+ */
+async function* walkDirectory(
+  dir: string,
+  depth: number,
+  rules: IgnoreRule[],
+  settings: WalkSettings,
+  seen: Set<string>
+): AsyncGenerator<Project, void, undefined> {
+  throwIfAborted(settings.signal);
+
+  let entries: Dirent[];
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    // Unreadable directories are skipped, like the binary does
+    return;
+  }
+
+  const names = new Set(entries.map((e) => e.name));
+  const localRules =
+    !settings.noIgnore && names.has(".gitignore")
+      ? [...rules, ...(await readIgnoreFile(dir))]
+      : rules;
+
+  const marker = pickMarker(names, settings);
+  if (marker && !seen.has(dir)) {
+    seen.add(dir);
+    const project = await createProject(dir, marker, names, settings);
+
+    if (!(settings.worktrees === false && project.isWorktree)) {
+      yield project;
+    }
+
+    if (settings.worktrees === true && marker === ".git" && !project.isWorktree) {
+      for (const worktree of await listRegisteredWorktrees(dir)) {
+        if (seen.has(worktree)) {
+          continue;
+        }
+        seen.add(worktree);
+        const worktreeNames = await readNames(worktree);
+        const worktreeMarker = pickMarker(worktreeNames, settings) ?? ".git";
+        yield await createProject(worktree, worktreeMarker, worktreeNames, settings, dir);
+      }
+    }
+
+    if (!settings.nested) {
+      return;
+    }
+  }
+
+  if (depth >= settings.maxDepth) {
+    return;
+  }
+
+  for (const entry of entries) {
+    if (!entry.isDirectory()) {
+      continue;
+    }
+    const child = path.join(dir, entry.name);
+    if (settings.isExcluded(child) || isIgnored(localRules, child, true)) {
+      continue;
+    }
+    yield* walkDirectory(child, depth + 1, localRules, settings, seen);
+  }
+}
+
+/**
+ * Walk the configured paths in Node, yielding projects as they are found
+ *
+ * Honors `paths`, `markers`, `excludes`, `maxDepth`, `noIgnore` (including
+ * .gitignore files), `nested`, `worktrees` and marker priorities. Options not
+ * provided are read from the pj config file. Aborting `signal` stops the walk
+ * with a PjAbortError.
+ */
+export async function* walkProjects(
+  options?: DiscoverOptions
+): AsyncGenerator<Project, void, undefined> {
+  yield* walkRoots(await resolveSettings(options));
+}
+
+/**
+ * Walk every root in the resolved settings
+ */
+async function* walkRoots(
+  settings: WalkSettings
+): AsyncGenerator<Project, void, undefined> {
+  const seen = new Set<string>();
+
+  for (const root of settings.roots) {
+    yield* walkDirectory(root, 0, [], settings, seen);
+  }
+}
+
+/**
+ * Sort projects the way the binary does
+ *
+ * "priority" (the default) orders by marker priority, highest first; "alpha"
+ * and "label" order by name. Ties are broken by name.
+ */
+export function sortProjects(
+  projects: Project[],
+  priorities: Record<string, number>,
+  sort: DiscoverOptions["sort"] = "priority",
+  direction?: "asc" | "desc"
+): Project[] {
+  if (sort === "frecency") {
+    return projects;
+  }
+
+  const byName = (a: Project, b: Project): number =>
+    a.name.localeCompare(b.name) || a.path.localeCompare(b.path);
+
+  let compare: (a: Project, b: Project) => number;
+  let defaultDirection: "asc" | "desc";
+
+  switch (sort) {
+    case "alpha":
+      compare = byName;
+      defaultDirection = "asc";
+      break;
+    case "label":
+      compare = (a, b) => (a.label ?? "").localeCompare(b.label ?? "") || byName(a, b);
+      defaultDirection = "asc";
+      break;
+    case "priority":
+      compare = (a, b) =>
+        (priorities[a.marker] ?? 0) - (priorities[b.marker] ?? 0) || byName(b, a);
+      defaultDirection = "desc";
+      break;
+  }
+
+  const sign = (direction ?? defaultDirection) === "asc" ? 1 : -1;
+  return [...projects].sort((a, b) => sign * compare(a, b));
+}
+
+/**
+ * Discover projects with the native Node walker
+ *
+ * Used when the pj binary is unavailable. Returns projects in the same shape
+ * as parseJsonOutput, sorted like the binary.
+ */
+export async function discoverNative(options?: DiscoverOptions): Promise<Project[]> {
+  const settings = await resolveSettings(options);
+  const projects: Project[] = [];
+  for await (const project of walkRoots(settings)) {
+    projects.push(project);
+  }
+
+  return sortProjects(
+    projects,
+    settings.priorities,
+    options?.sort,
+    options?.sortDirection
+  );
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { getEventListeners } from "node:events";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { PjAbortError, PjBinaryError } from "../../src/api/types.js";
+import { withTimeout } from "../../src/api/abort.js";
+import { BinaryManager } from "../../src/binary/manager.js";
+import { getBinaryCacheDir } from "../../src/binary/constants.js";
+import { getAssetFilename } from "../../src/binary/platform.js";
+
+/**
+ * A stand-in for fetch that answers like GitHub, with a download that
+ * delivers one chunk and then stalls until the request is aborted
+ */
+function stalledFetch(version: string) {
+  return (url: string, init?: RequestInit): Promise<Response> => {
+    const signal = init?.signal ?? undefined;
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason as Error);
+    }
+
+    if (url.includes("/releases/")) {
+      const name = getAssetFilename(version);
+      return Promise.resolve(
+        Response.json({
+          tag_name: `v${version}`,
+          name: version,
+          prerelease: false,
+          assets: [
+            {
+              name,
+              browser_download_url: `https://example.invalid/${name}`,
+              size: 1000,
+              content_type: "application/gzip",
+            },
+          ],
+        })
+      );
+    }
+
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array(100));
+        signal?.addEventListener("abort", () => {
+          controller.error(signal.reason);
+        });
+      },
+    });
+    return Promise.resolve(new Response(body));
+  };
+}
+
+describe("Cancellation", () => {
+  describe("withTimeout", () => {
+    it("should abort when the caller's signal aborts", () => {
+      const controller = new AbortController();
+      const signal = withTimeout(controller.signal, 60_000);
+
+      controller.abort(new Error("stop"));
+      expect(signal.aborted).toBe(true);
+      expect(signal.reason).toEqual(new Error("stop"));
+    });
+
+    it("should abort when the timeout elapses", async () => {
+      const signal = withTimeout(new AbortController().signal, 10);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(signal.aborted).toBe(true);
+      expect((signal.reason as Error).name).toBe("TimeoutError");
+    });
+
+    it("should not leave listeners on a long-lived signal", () => {
+      const controller = new AbortController();
+      for (let i = 0; i < 50; i++) {
+        withTimeout(controller.signal, 60_000);
+      }
+      expect(getEventListeners(controller.signal, "abort")).toHaveLength(0);
+    });
+  });
+
+  describe("binary downloads", () => {
+    let tempDir: string;
+    let previousCache: string | undefined;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "pj-abort-"));
+      previousCache = process.env["XDG_CACHE_HOME"];
+      process.env["XDG_CACHE_HOME"] = tempDir;
+      vi.stubGlobal("fetch", stalledFetch("1.14.0"));
+    });
+
+    afterEach(async () => {
+      vi.unstubAllGlobals();
+      if (previousCache === undefined) {
+        delete process.env["XDG_CACHE_HOME"];
+      } else {
+        process.env["XDG_CACHE_HOME"] = previousCache;
+      }
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it("should reject with PjAbortError when aborted before the request", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        new BinaryManager().getLatestRelease(controller.signal)
+      ).rejects.toBeInstanceOf(PjAbortError);
+    });
+
+    it("should stop a download and remove the partial file when aborted", async () => {
+      const controller = new AbortController();
+      const download = new BinaryManager().downloadBinary({
+        version: "1.14.0",
+        signal: controller.signal,
+        onProgress: () => {
+          controller.abort();
+        },
+      });
+
+      await expect(download).rejects.toBeInstanceOf(PjAbortError);
+      await expect(fs.readdir(getBinaryCacheDir())).resolves.toEqual([]);
+      expect(getEventListeners(controller.signal, "abort")).toHaveLength(0);
+    });
+
+    it("should report network failures as PjBinaryError", async () => {
+      vi.stubGlobal("fetch", () => Promise.reject(new TypeError("fetch failed")));
+
+      await expect(new BinaryManager().getLatestRelease()).rejects.toBeInstanceOf(
+        PjBinaryError
+      );
+    });
+  });
+});
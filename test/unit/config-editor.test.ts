@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { DEFAULT_CONFIG, loadConfig } from "../../src/api/config.js";
+import { ConfigEditor, editConfig } from "../../src/api/config-editor.js";
+
+const CONFIG = `# My pj config
+paths:
+  - ~/code # main checkout
+  - ~/scratch
+
+markers:
+  - .git
+  - go.mod
+
+# Keep these out
+exclude:
+  - node_modules
+  - vendor
+
+max_depth: 3 # deep enough
+icons:
+  go.mod: "G"
+  .git: "T"
+`;
+
+describe("ConfigEditor", () => {
+  it("should add and remove paths while keeping comments", () => {
+    const editor = new ConfigEditor(CONFIG, "config.yaml");
+
+    expect(editor.addPath("~/work")).toBe(true);
+    expect(editor.addPath("~/code")).toBe(false);
+    expect(editor.removePath("~/scratch")).toBe(true);
+    expect(editor.removePath("~/missing")).toBe(false);
+    expect(editor.addPath({ path: "~/deep", maxDepth: 5 })).toBe(true);
+
+    const output = editor.toString();
+    expect(output).toContain("# My pj config");
+    expect(output).toContain("- ~/code # main checkout");
+    expect(output).toContain("- ~/work");
+    expect(output).toContain("max_depth: 5");
+    expect(output).not.toContain("scratch");
+  });
+
+  it("should write markers in object form and drop their legacy entries", () => {
+    const editor = new ConfigEditor(CONFIG, "config.yaml");
+
+    editor.addMarker({ marker: "go.mod", icon: "Go", priority: 10 });
+    editor.addMarker("deno.json");
+
+    const output = editor.toString();
+    expect(output).toContain("  - marker: go.mod\n    icon: Go\n    priority: 10");
+    expect(output).toContain("  - deno.json");
+    expect(output).not.toContain('go.mod: "G"');
+    expect(output).toContain('.git: "T"');
+  });
+
+  it("should remove the legacy maps once they are empty", () => {
+    const editor = new ConfigEditor(CONFIG, "config.yaml");
+
+    editor.removeMarker("go.mod");
+    editor.addMarker({ marker: ".git", icon: "git" });
+
+    expect(editor.toString()).not.toContain("icons:");
+  });
+
+  it("should set options and edit excludes in place", () => {
+    const editor = new ConfigEditor(CONFIG, "config.yaml");
+
+    editor.setOption("maxDepth", 5);
+    editor.setOption("noIgnore", true);
+    expect(editor.removeExclude("vendor")).toBe(true);
+    expect(editor.addExclude("node_modules")).toBe(false);
+
+    const output = editor.toString();
+    expect(output).toContain("max_depth: 5 # deep enough");
+    expect(output).toContain("no_ignore: true");
+    expect(output).toContain("# Keep these out\nexclude:\n  - node_modules\n");
+  });
+
+  it("should start lists that aren't set from the defaults", () => {
+    const editor = new ConfigEditor("max_depth: 2\n", "config.yaml");
+
+    editor.removeExclude("vendor");
+    expect(editor.removeMarker("missing")).toBe(false);
+
+    const output = editor.toString();
+    expect(output).toContain("exclude:\n  - node_modules");
+    expect(output).not.toContain("vendor");
+    expect(output).not.toContain("markers:");
+  });
+
+  it("should apply config values, leaving unchanged ones as written", () => {
+    const editor = new ConfigEditor(CONFIG, "config.yaml");
+
+    editor.applyConfig({ paths: ["~/code", "~/scratch"], maxDepth: 3, icons: { "go.mod": "G" } });
+    expect(editor.toString()).toBe(CONFIG);
+
+    editor.applyConfig({
+      paths: ["~/code", "~/work"],
+      icons: { "go.mod": "Go", "Cargo.toml": "R" },
+      projects: { "~/code/api": { aliases: ["api"] } },
+    });
+
+    const output = editor.toString();
+    expect(output).toContain("  - ~/code # main checkout\n  - ~/work\n");
+    expect(output).toContain("  - marker: go.mod\n    icon: Go\n");
+    // Cargo.toml isn't listed, so only the legacy map can hold its icon
+    expect(output).toContain('icons:\n  .git: "T"\n  Cargo.toml: R\n');
+    expect(output).toContain("projects:\n  ~/code/api:\n    aliases:\n      - api\n");
+  });
+
+  describe("files", () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "pj-editor-"));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it("should edit a file in place, creating it if missing", async () => {
+      const configPath = path.join(tempDir, "pj", "config.yaml");
+
+      await editConfig((config) => {
+        config.addPath("~/work");
+        config.setOption("cacheTTL", 60);
+      }, configPath);
+
+      const config = await loadConfig(configPath);
+      expect(config.paths).toEqual([...DEFAULT_CONFIG.paths, "~/work"]);
+      expect(config.cacheTTL).toBe(60);
+    });
+  });
+});
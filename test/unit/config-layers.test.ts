@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { PjConfigError } from "../../src/api/types.js";
+import { DEFAULT_CONFIG, expandConfigPaths, readConfigFile } from "../../src/api/config.js";
+import {
+  explainConfig,
+  findProjectConfig,
+  readEnvConfig,
+  resolveConfig,
+} from "../../src/api/config-layers.js";
+import { Pj } from "../../src/api/pj.js";
+
+describe("Layered Config", () => {
+  describe("readEnvConfig", () => {
+    it("should read PJ_* variables", () => {
+      const config = readEnvConfig({
+        PJ_PATHS: ["/a", "/b", ""].join(path.delimiter),
+        PJ_MARKERS: "go.mod, Cargo.toml",
+        PJ_MAX_DEPTH: "5",
+        PJ_NO_IGNORE: "yes",
+        PJ_EXCLUDE: "",
+      });
+
+      expect(config).toEqual({
+        paths: ["/a", "/b"],
+        markers: ["go.mod", "Cargo.toml"],
+        maxDepth: 5,
+        noIgnore: true,
+      });
+    });
+
+    it("should reject invalid values", () => {
+      expect(() => readEnvConfig({ PJ_MAX_DEPTH: "deep" })).toThrow(PjConfigError);
+      expect(() => readEnvConfig({ PJ_MAX_DEPTH: "1.5" })).toThrow(
+        'Invalid PJ_MAX_DEPTH "1.5": expected a non-negative integer'
+      );
+      expect(() => readEnvConfig({ PJ_NO_NESTED: "maybe" })).toThrow("true or false");
+    });
+  });
+
+  describe("files", () => {
+    let tempDir: string;
+    let systemPath: string;
+    let userPath: string;
+    let repoDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), "pj-layers-")));
+      systemPath = path.join(tempDir, "system.yaml");
+      userPath = path.join(tempDir, "user.yaml");
+      repoDir = path.join(tempDir, "repo");
+      await fs.mkdir(path.join(repoDir, "src", "deep"), { recursive: true });
+
+      await fs.writeFile(systemPath, "max_depth: 2\ncache_ttl: 60\nno_ignore: true\n");
+      await fs.writeFile(
+        userPath,
+        "max_depth: 4\nmarkers:\n  - marker: go.mod\n    icon: G\n"
+      );
+      await fs.writeFile(
+        path.join(repoDir, ".pj.yaml"),
+        "paths:\n  - services\n  - ~/shared\n"
+      );
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it("should find the nearest .pj.yaml above a directory", async () => {
+      await expect(findProjectConfig(path.join(repoDir, "src", "deep"))).resolves.toBe(
+        path.join(repoDir, ".pj.yaml")
+      );
+      await expect(findProjectConfig(tempDir)).resolves.toBeUndefined();
+    });
+
+    it("should apply the layers in order of precedence", async () => {
+      const config = await resolveConfig({
+        systemConfigPath: systemPath,
+        configPath: userPath,
+        cwd: path.join(repoDir, "src"),
+        env: { PJ_CACHE_TTL: "30" },
+        overrides: { noIgnore: false },
+      });
+
+      expect(config.maxDepth).toBe(4);
+      expect(config.cacheTTL).toBe(30);
+      expect(config.noIgnore).toBe(false);
+      expect(config.markers).toEqual(["go.mod"]);
+      expect(config.icons["go.mod"]).toBe("G");
+      expect(config.icons[".git"]).toBe(DEFAULT_CONFIG.icons[".git"]);
+      expect(config.paths).toEqual([path.join(repoDir, "services"), "~/shared"]);
+      expect(config.exclude).toEqual(DEFAULT_CONFIG.exclude);
+    });
+
+    it("should keep variables in project search paths", async () => {
+      await fs.writeFile(
+        path.join(repoDir, ".pj.yaml"),
+        "paths:\n  - $CODE/code\n  - ${CODE}/src\n  - $SUB/tools\n"
+      );
+
+      const config = await resolveConfig({
+        systemConfigPath: systemPath,
+        configPath: userPath,
+        cwd: repoDir,
+        env: { CODE: tempDir, SUB: "nested" },
+      });
+
+      expect(config.paths).toEqual([
+        "$CODE/code",
+        "${CODE}/src",
+        path.join(repoDir, "nested", "tools"),
+      ]);
+      expect(expandConfigPaths(config, { CODE: tempDir }).paths).toEqual([
+        path.join(tempDir, "code"),
+        path.join(tempDir, "src"),
+        path.join(repoDir, "nested", "tools"),
+      ]);
+    });
+
+    it("should explain where each value came from", async () => {
+      const sources = await explainConfig({
+        systemConfigPath: systemPath,
+        configPath: userPath,
+        cwd: repoDir,
+        env: { PJ_CACHE_TTL: "30" },
+        overrides: { noIgnore: false },
+      });
+      const byKey = Object.fromEntries(sources.map((s) => [s.key, s]));
+
+      expect(byKey["maxDepth"]).toMatchObject({ value: 4, layer: "user", source: userPath });
+      expect(byKey["cacheTTL"]).toMatchObject({
+        value: 30,
+        layer: "env",
+        source: "PJ_CACHE_TTL",
+      });
+      expect(byKey["noIgnore"]).toMatchObject({ layer: "override", source: undefined });
+      expect(byKey["paths"]).toMatchObject({
+        layer: "project",
+        source: path.join(repoDir, ".pj.yaml"),
+      });
+      expect(byKey["exclude"]).toMatchObject({ layer: "default" });
+    });
+
+    it("should keep constructor options when a Pj instance loads its config", async () => {
+      const pj = new Pj({ maxDepth: 9, resultCache: false });
+      await pj.loadConfig(userPath);
+
+      expect(pj.getConfig().maxDepth).toBe(9);
+      expect(pj.getConfig().markers).toEqual(["go.mod"]);
+    });
+
+    it("should only save the user layer and explicit changes", async () => {
+      const cwd = process.cwd();
+      const previous = process.env["PJ_MAX_DEPTH"];
+      process.env["PJ_MAX_DEPTH"] = "9";
+      process.chdir(repoDir);
+      try {
+        const pj = new Pj({ noNested: true, resultCache: false });
+        await pj.loadConfig(userPath);
+        expect(pj.getConfig().maxDepth).toBe(9);
+        expect(pj.getConfig().paths).toContain(path.join(repoDir, "services"));
+
+        pj.setConfig({ cacheTTL: 120 });
+        await pj.saveConfig({ exclude: ["dist"] });
+      } finally {
+        process.chdir(cwd);
+        if (previous === undefined) {
+          delete process.env["PJ_MAX_DEPTH"];
+        } else {
+          process.env["PJ_MAX_DEPTH"] = previous;
+        }
+      }
+
+      expect(await readConfigFile(userPath)).toEqual({
+        maxDepth: 4,
+        markers: ["go.mod"],
+        icons: { "go.mod": "G" },
+        noNested: true,
+        cacheTTL: 120,
+        exclude: ["dist"],
+      });
+    });
+
+    it("should keep comments and marker objects when saving", async () => {
+      await fs.writeFile(
+        userPath,
+        `# My pj config
+paths:
+  - ~/code # main checkout
+markers:
+  - marker: go.mod # Go modules
+    icon: G
+    priority: 10
+  - .git
+max_depth: 4 # deep enough
+`
+      );
+      const pj = new Pj({ resultCache: false });
+      await pj.loadConfig(userPath);
+
+      pj.setConfig({ maxDepth: 6 });
+      await pj.saveConfig({
+        markers: ["go.mod", ".git", "Cargo.toml"],
+        icons: { "Cargo.toml": "R" },
+      });
+
+      const content = await fs.readFile(userPath, "utf-8");
+      expect(content).toContain("# My pj config");
+      expect(content).toContain("~/code # main checkout");
+      expect(content).toContain("marker: go.mod # Go modules");
+      expect(content).toContain("max_depth: 6 # deep enough");
+      expect(content).not.toContain("icons:");
+      expect(content).not.toContain("priorities:");
+      expect(await readConfigFile(userPath)).toEqual({
+        paths: ["~/code"],
+        markers: ["go.mod", ".git", "Cargo.toml"],
+        icons: { "go.mod": "G", "Cargo.toml": "R" },
+        priorities: { "go.mod": 10 },
+        maxDepth: 6,
+      });
+    });
+  });
+});
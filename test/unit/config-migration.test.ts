@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { loadConfig } from "../../src/api/config.js";
+import { createUnifiedDiff, migrateConfig } from "../../src/api/config-migration.js";
+
+const LEGACY_CONFIG = `# pj config
+markers:
+  - .git # repos
+  - marker: go.mod
+    icon: "X"
+  - package.json
+
+icons:
+  .git: "G"
+  go.mod: "Y"
+  custom: "C"
+priorities:
+  package.json: 12
+`;
+
+describe("Config Migration", () => {
+  describe("createUnifiedDiff", () => {
+    it("should produce hunks with context", () => {
+      const before = ["a", "b", "c", "d", "e", "f", "g", "h", "i", "j"].join("\n") + "\n";
+      const after = before.replace("b\n", "B\n").replace("j\n", "j\nk\n");
+
+      expect(createUnifiedDiff(before, after, "file")).toBe(
+        [
+          "--- file",
+          "+++ file",
+          "@@ -1,5 +1,5 @@",
+          " a",
+          "-b",
+          "+B",
+          " c",
+          " d",
+          " e",
+          "@@ -8,3 +8,4 @@",
+          " h",
+          " i",
+          " j",
+          "+k",
+          "",
+        ].join("\n")
+      );
+      expect(createUnifiedDiff(before, before, "file")).toBe("");
+    });
+  });
+
+  describe("migrateConfig", () => {
+    let tempDir: string;
+    let configPath: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "pj-migrate-"));
+      configPath = path.join(tempDir, "config.yaml");
+      await fs.writeFile(configPath, LEGACY_CONFIG);
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it("should only report the diff on a dry run", async () => {
+      const result = await migrateConfig(configPath, { dryRun: true });
+
+      expect(result.changed).toBe(true);
+      expect(result.backupPath).toBeUndefined();
+      expect(result.diff).toContain("-  - .git # repos\n+  - marker: .git # repos\n");
+      expect(await fs.readFile(configPath, "utf-8")).toBe(LEGACY_CONFIG);
+    });
+
+    it("should move map entries into marker objects and back up the file", async () => {
+      const result = await migrateConfig(configPath);
+
+      expect(result.migrated).toEqual([".git", "package.json"]);
+      expect(result.unlisted).toEqual(["custom"]);
+      expect(result.backupPath).toBe(`${configPath}.bak`);
+      expect(await fs.readFile(`${configPath}.bak`, "utf-8")).toBe(LEGACY_CONFIG);
+
+      const migrated = await fs.readFile(configPath, "utf-8");
+      expect(migrated).toContain('  - marker: .git # repos\n    icon: "G"\n');
+      expect(migrated).toContain("  - marker: package.json\n    priority: 12\n");
+      expect(migrated).not.toContain("priorities:");
+
+      const config = await loadConfig(configPath);
+      expect(config.icons[".git"]).toBe("G");
+      expect(config.priorities["package.json"]).toBe(12);
+    });
+
+    it("should report conflicts instead of picking a value", async () => {
+      const result = await migrateConfig(configPath);
+
+      expect(result.conflicts).toEqual([
+        { marker: "go.mod", field: "icon", legacyValue: "Y", markerValue: "X" },
+      ]);
+      const migrated = await fs.readFile(configPath, "utf-8");
+      expect(migrated).toContain('icons:\n  go.mod: "Y"\n  custom: "C"\n');
+      expect(migrated).toContain('  - marker: go.mod\n    icon: "X"\n');
+    });
+
+    it("should leave a migrated config untouched", async () => {
+      await migrateConfig(configPath);
+      const result = await migrateConfig(configPath);
+
+      expect(result.changed).toBe(false);
+      expect(result.diff).toBe("");
+      expect(result.backupPath).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { PjConfigValidationError } from "../../src/api/types.js";
+import { loadConfig } from "../../src/api/config.js";
+import {
+  formatConfigDiagnostic,
+  validateConfig,
+  validateConfigContent,
+} from "../../src/api/config-validation.js";
+
+describe("Config validation", () => {
+  describe("validateConfigContent", () => {
+    it("should accept a valid config", () => {
+      const content = `
+paths:
+  - ~/code
+  - path: ~/work
+    max_depth: 5
+markers:
+  - .git
+  - marker: go.mod
+    priority: 10
+cache_ttl: 300
+projects:
+  ~/work/api:
+    aliases: [api]
+`;
+      expect(validateConfigContent(content)).toEqual([]);
+      expect(validateConfigContent("")).toEqual([]);
+    });
+
+    it("should suggest known keys for typos", () => {
+      const diagnostics = validateConfigContent("paths: [~/code]\nmax_dept: 4\n");
+
+      expect(diagnostics).toEqual([
+        {
+          path: ["max_dept"],
+          line: 2,
+          column: 1,
+          severity: "warning",
+          message: 'Unknown key "max_dept", did you mean "max_depth"?',
+          suggestion: "max_depth",
+        },
+      ]);
+    });
+
+    it("should report unknown keys as errors in strict mode", () => {
+      const [diagnostic] = validateConfigContent("colour: red\n", { strict: true });
+
+      expect(diagnostic?.severity).toBe("error");
+      expect(diagnostic?.suggestion).toBe("colors");
+    });
+
+    it("should report values of the wrong type with their location", () => {
+      const content = [
+        "paths: ~/code",
+        "cache_ttl: -5",
+        "markers:",
+        "  - marker: go.mod",
+        "    priority: high",
+        "  - icon: x",
+      ].join("\n");
+
+      expect(
+        validateConfigContent(content).map((d) => [d.path, d.line, d.column, d.message])
+      ).toEqual([
+        [["paths"], 1, 8, "paths must be a list of strings or mappings"],
+        [["cache_ttl"], 2, 12, "cache_ttl must be a non-negative number"],
+        [["markers", 0, "priority"], 5, 15, "markers.0.priority must be a number"],
+        [["markers", 1], 6, 5, 'markers.1 is missing "marker"'],
+      ]);
+    });
+
+    it("should report YAML syntax errors", () => {
+      const [diagnostic] = validateConfigContent("paths: [~/code\n");
+
+      expect(diagnostic?.severity).toBe("error");
+      expect(diagnostic?.line).toBeGreaterThan(0);
+    });
+
+    it("should format diagnostics with their location", () => {
+      const [diagnostic] = validateConfigContent("max_depth: 1.5\n");
+
+      expect(formatConfigDiagnostic(diagnostic!, "/home/me/config.yaml")).toBe(
+        "/home/me/config.yaml:1:12: error: max_depth must be a non-negative integer"
+      );
+    });
+  });
+
+  describe("config files", () => {
+    let tempDir: string;
+    let configPath: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "pj-validate-"));
+      configPath = path.join(tempDir, "config.yaml");
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it("should validate a file, treating a missing file as valid", async () => {
+      await fs.writeFile(configPath, "max_dept: 4\n");
+
+      expect(await validateConfig(configPath)).toHaveLength(1);
+      expect(await validateConfig(path.join(tempDir, "missing.yaml"))).toEqual([]);
+    });
+
+    it("should only reject invalid configs in strict mode", async () => {
+      await fs.writeFile(configPath, "max_dept: 4\n");
+
+      await expect(loadConfig(configPath)).resolves.toMatchObject({ maxDepth: 3 });
+      const error: unknown = await loadConfig(configPath, { strict: true }).catch(
+        (e: unknown) => e
+      );
+      expect(error).toBeInstanceOf(PjConfigValidationError);
+      expect((error as PjConfigValidationError).diagnostics[0]?.path).toEqual([
+        "max_dept",
+      ]);
+    });
+  });
+});
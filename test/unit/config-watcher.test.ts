@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { once } from "node:events";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { ConfigDiagnostic, PjConfig } from "../../src/api/types.js";
+import { PjConfigValidationError } from "../../src/api/types.js";
+import { Pj } from "../../src/api/pj.js";
+
+describe("Config Reloading", () => {
+  let tempDir: string;
+  let configPath: string;
+  let pj: Pj;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "pj-reload-"));
+    configPath = path.join(tempDir, "config.yaml");
+    await fs.writeFile(configPath, "max_depth: 2\n");
+    pj = new Pj({ resultCache: false });
+    await pj.loadConfig(configPath);
+  });
+
+  afterEach(async () => {
+    pj.unwatchConfig();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("should swap in the new config when the file changes", async () => {
+    const watcher = await pj.watchConfig({ debounceMs: 20 });
+    expect(watcher.files).toContain(configPath);
+
+    const changed = once(pj, "config:changed") as Promise<[PjConfig, PjConfig]>;
+    await fs.writeFile(configPath, "max_depth: 6\n");
+    const [config, previous] = await changed;
+
+    expect(config.maxDepth).toBe(6);
+    expect(previous.maxDepth).toBe(2);
+    expect(pj.getConfig().maxDepth).toBe(6);
+  });
+
+  it("should keep the previous config when the new one is invalid", async () => {
+    await pj.watchConfig({ debounceMs: 20 });
+
+    const failed = once(pj, "config:error");
+    await fs.writeFile(configPath, "max_depth: deep\n");
+    const [error] = await failed;
+
+    expect(error).toBeInstanceOf(PjConfigValidationError);
+    expect(pj.getConfig().maxDepth).toBe(2);
+  });
+
+  it("should apply configs with unknown keys and report the warnings", async () => {
+    await pj.watchConfig({ debounceMs: 20 });
+
+    const warned = once(pj, "config:warning") as Promise<[ConfigDiagnostic[], string]>;
+    const changed = once(pj, "config:changed");
+    await fs.writeFile(configPath, "max_depth: 6\nshell_integration: true\n");
+    const [diagnostics, file] = await warned;
+    await changed;
+
+    expect(file).toBe(configPath);
+    expect(diagnostics).toMatchObject([{ path: ["shell_integration"], severity: "warning" }]);
+    expect(pj.getConfig().maxDepth).toBe(6);
+
+    // Later reloads aren't blocked by the warning
+    const changedAgain = once(pj, "config:changed");
+    await fs.writeFile(configPath, "max_depth: 7\nshell_integration: true\n");
+    await changedAgain;
+    expect(pj.getConfig().maxDepth).toBe(7);
+  });
+
+  it("should load the config as soon as autoReload starts watching", async () => {
+    const previous = process.env["XDG_CONFIG_HOME"];
+    process.env["XDG_CONFIG_HOME"] = tempDir;
+    await fs.mkdir(path.join(tempDir, "pj"));
+    await fs.writeFile(path.join(tempDir, "pj", "config.yaml"), "max_depth: 2\n");
+    const reloading = new Pj({ autoReload: true, resultCache: false });
+    try {
+      expect(reloading.getConfig().maxDepth).toBe(3);
+      const [config] = (await once(reloading, "config:changed")) as [PjConfig];
+
+      expect(config.maxDepth).toBe(2);
+      expect(reloading.getConfig().maxDepth).toBe(2);
+    } finally {
+      reloading.unwatchConfig();
+      if (previous === undefined) {
+        delete process.env["XDG_CONFIG_HOME"];
+      } else {
+        process.env["XDG_CONFIG_HOME"] = previous;
+      }
+    }
+  });
+
+  it("should stop reloading once unwatched", async () => {
+    const watcher = await pj.watchConfig({ debounceMs: 20 });
+    pj.unwatchConfig();
+
+    expect(watcher.isClosed()).toBe(true);
+    await fs.writeFile(configPath, "max_depth: 6\n");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(pj.getConfig().maxDepth).toBe(2);
+  });
+});
@@ -1,9 +1,12 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import {
   DEFAULT_CONFIG,
   expandPath,
   expandConfigPaths,
+  interpolateEnv,
+  resolveConfigPaths,
 } from "../../src/api/config.js";
+import * as fs from "node:fs/promises";
 import * as os from "node:os";
 import * as path from "node:path";
 
@@ -48,6 +51,18 @@ describe("Configuration", () => {
       const relativePath = "some/path";
       expect(expandPath(relativePath)).toBe(relativePath);
     });
+
+    it("should interpolate environment variables", () => {
+      const env = { WORK: "/work", EMPTY: "" };
+
+      expect(expandPath("$WORK/api", env)).toBe("/work/api");
+      expect(expandPath("${WORK}/api", env)).toBe("/work/api");
+      expect(expandPath("${CLIENTS:-~/clients}/acme", env)).toBe(
+        path.join(os.homedir(), "clients", "acme")
+      );
+      expect(interpolateEnv("${EMPTY:-fallback}", env)).toBe("fallback");
+      expect(interpolateEnv("$MISSING/x", env)).toBe("/x");
+    });
   });
 
   describe("expandConfigPaths", () => {
@@ -74,5 +89,64 @@ describe("Configuration", () => {
       expect(expanded.maxDepth).toBe(5);
       expect(expanded.markers).toEqual(DEFAULT_CONFIG.markers);
     });
+
+    it("should expand variables in paths and excludes, keeping globs", () => {
+      const config = {
+        ...DEFAULT_CONFIG,
+        paths: ["$WORK/*", { path: "${WORK}/api", exclude: ["$WORK/api/tmp"] }],
+        exclude: ["node_modules", "~/scratch/*"],
+      };
+
+      const expanded = expandConfigPaths(config, { WORK: "/work" });
+
+      expect(expanded.paths).toEqual([
+        "/work/*",
+        { path: "/work/api", exclude: ["/work/api/tmp"] },
+      ]);
+      expect(expanded.exclude).toEqual([
+        "node_modules",
+        path.join(os.homedir(), "scratch", "*"),
+      ]);
+    });
+  });
+
+  describe("resolveConfigPaths", () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "pj-expand-"));
+      for (const dir of ["acme/repos", "globex/repos", "initech", ".hidden/repos"]) {
+        await fs.mkdir(path.join(tempDir, "clients", dir), { recursive: true });
+      }
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it("should expand globs and report those matching nothing", async () => {
+      const env = { ROOT: tempDir };
+      const config = {
+        ...DEFAULT_CONFIG,
+        paths: [
+          "$ROOT/clients/*/repos",
+          { path: "${ROOT}/clients/{acme,initech}", maxDepth: 1 },
+          "$ROOT/missing/*",
+        ],
+        exclude: ["node_modules", "$ROOT/clients/*/tmp"],
+      };
+
+      const { config: expanded, unmatched } = await resolveConfigPaths(config, env);
+      const clients = path.join(tempDir, "clients");
+
+      expect(expanded.paths).toEqual([
+        path.join(clients, "acme", "repos"),
+        path.join(clients, "globex", "repos"),
+        { path: path.join(clients, "acme"), maxDepth: 1 },
+        { path: path.join(clients, "initech"), maxDepth: 1 },
+      ]);
+      expect(expanded.exclude).toEqual(["node_modules", `${tempDir}/clients/*/tmp`]);
+      expect(unmatched).toEqual(["$ROOT/missing/*"]);
+    });
   });
 });
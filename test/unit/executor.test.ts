@@ -1,5 +1,15 @@
-import { describe, it, expect } from "vitest";
-import { buildArgs, parseJsonOutput } from "../../src/cli/executor.js";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  buildArgs,
+  executePj,
+  parseJsonOutput,
+  ProjectStreamParser,
+  streamPj,
+} from "../../src/cli/executor.js";
+import { PjAbortError } from "../../src/api/types.js";
 
 describe("CLI Executor", () => {
   describe("buildArgs", () => {
@@ -65,6 +75,12 @@ describe("CLI Executor", () => {
       expect(args).toContain("alpha");
     });
 
+    it("should not pass frecency sort to the binary", () => {
+      const args = buildArgs({ sort: "frecency", sortDirection: "asc" });
+      expect(args).not.toContain("--sort");
+      expect(args).not.toContain("frecency");
+    });
+
     it("should add --sort-direction flag when set", () => {
       const args = buildArgs({ sortDirection: "asc" });
       expect(args).toContain("--sort-direction");
@@ -337,4 +353,138 @@ describe("CLI Executor", () => {
       });
     });
   });
+
+  describe("ProjectStreamParser", () => {
+    const output = JSON.stringify(
+      {
+        projects: [
+          { path: "/foo/bar", name: "bar", marker: ".git" },
+          { path: "/foo/b}a\"z", name: "b}a\"z", marker: "package.json", icon: "{" },
+        ],
+      },
+      null,
+      2
+    );
+
+    it("should yield projects as their objects complete", () => {
+      const parser = new ProjectStreamParser();
+      const splitAt = output.indexOf("package.json");
+
+      const first = parser.push(output.slice(0, splitAt));
+      expect(first.map((p) => p.name)).toEqual(["bar"]);
+
+      const second = parser.push(output.slice(splitAt));
+      expect(second.map((p) => p.name)).toEqual(['b}a"z']);
+      expect(second[0]?.icon).toBe("{");
+      expect(() => { parser.end(); }).not.toThrow();
+    });
+
+    it("should produce the same projects as parseJsonOutput when fed one character at a time", () => {
+      const parser = new ProjectStreamParser();
+      const projects = [...output].flatMap((ch) => parser.push(ch));
+      parser.end();
+
+      expect(projects).toEqual(parseJsonOutput(output));
+    });
+
+    it("should parse direct array format", () => {
+      const parser = new ProjectStreamParser();
+      const projects = parser.push(
+        JSON.stringify([{ path: "/foo/bar", name: "bar", marker: ".git" }])
+      );
+      parser.end();
+
+      expect(projects).toHaveLength(1);
+      expect(projects[0]?.path).toBe("/foo/bar");
+    });
+
+    it("should accept empty output", () => {
+      const parser = new ProjectStreamParser();
+      expect(parser.push("  \n")).toEqual([]);
+      expect(() => { parser.end(); }).not.toThrow();
+    });
+
+    it("should throw on truncated output", () => {
+      const parser = new ProjectStreamParser();
+      parser.push(output.slice(0, output.length - 10));
+      expect(() => { parser.end(); }).toThrow("Failed to parse pj output");
+    });
+
+    it("should throw on unexpected format", () => {
+      const parser = new ProjectStreamParser();
+      parser.push(JSON.stringify({ invalid: "format" }));
+      expect(() => { parser.end(); }).toThrow("Unexpected pj output format");
+    });
+
+    it("should only stream the projects array of the wrapper object", () => {
+      const wrapped = JSON.stringify({
+        errors: [{ path: "/denied", name: "denied", marker: ".git" }],
+        projects: [{ path: "/foo/bar", name: "bar", marker: ".git" }],
+      });
+      const parser = new ProjectStreamParser();
+      const projects = [...wrapped].flatMap((ch) => parser.push(ch));
+      parser.end();
+
+      expect(projects.map((p) => p.path)).toEqual(["/foo/bar"]);
+      expect(projects).toEqual(parseJsonOutput(wrapped));
+    });
+  });
+
+  describe.skipIf(process.platform === "win32")("cancellation", () => {
+    let tempDir: string;
+    let binaryPath: string;
+
+    beforeAll(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "pj-executor-"));
+      // A pj stand-in that reports one project, then hangs
+      binaryPath = path.join(tempDir, "pj");
+      await fs.writeFile(
+        binaryPath,
+        `#!/bin/sh
+printf '{"projects":[{"path":"/a","name":"a","marker":".git"},'
+exec sleep 30
+`,
+        { mode: 0o755 }
+      );
+    });
+
+    afterAll(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it("should not start pj when the signal is already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        executePj(["--json"], undefined, { binaryPath, signal: controller.signal })
+      ).rejects.toBeInstanceOf(PjAbortError);
+    });
+
+    it("should kill a running pj when the signal is aborted", async () => {
+      const controller = new AbortController();
+      const run = executePj(["--json"], undefined, { binaryPath, signal: controller.signal });
+      setTimeout(() => {
+        controller.abort();
+      }, 50);
+
+      await expect(run).rejects.toBeInstanceOf(PjAbortError);
+    });
+
+    it("should stop streaming when the signal is aborted", async () => {
+      const controller = new AbortController();
+      const names: string[] = [];
+
+      await expect(async () => {
+        for await (const project of streamPj(["--json"], undefined, {
+          binaryPath,
+          signal: controller.signal,
+        })) {
+          names.push(project.name);
+          controller.abort();
+        }
+      }).rejects.toBeInstanceOf(PjAbortError);
+      expect(names).toEqual(["a"]);
+    });
+  });
 });
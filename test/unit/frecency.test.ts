@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  FrecencyStore,
+  frecencyScore,
+  sortByFrecency,
+} from "../../src/api/frecency.js";
+import type { FrecencyEntry, Project } from "../../src/api/types.js";
+
+function project(projectPath: string): Project {
+  return {
+    path: projectPath,
+    displayPath: undefined,
+    name: path.basename(projectPath),
+    marker: ".git",
+    label: undefined,
+    displayLabel: undefined,
+    icon: undefined,
+    ansiIcon: undefined,
+    color: undefined,
+    priority: undefined,
+    isWorktree: undefined,
+    worktreeParent: undefined,
+  };
+}
+
+function entry(projectPath: string, score: number): FrecencyEntry {
+  return { path: projectPath, visits: 1, rank: 1, lastVisit: "", score };
+}
+
+describe("Frecency", () => {
+  describe("frecencyScore", () => {
+    const now = new Date("2026-01-10T12:00:00Z");
+
+    it("should weight recent visits higher", () => {
+      const rank = 8;
+      expect(frecencyScore({ rank, lastVisit: "2026-01-10T11:30:00Z" }, now)).toBe(32);
+      expect(frecencyScore({ rank, lastVisit: "2026-01-10T00:00:00Z" }, now)).toBe(16);
+      expect(frecencyScore({ rank, lastVisit: "2026-01-07T12:00:00Z" }, now)).toBe(4);
+      expect(frecencyScore({ rank, lastVisit: "2025-12-01T12:00:00Z" }, now)).toBe(2);
+    });
+  });
+
+  describe("sortByFrecency", () => {
+    const projects = [project("/a"), project("/b"), project("/c"), project("/d")];
+    const entries = [entry("/c", 10), entry("/b", 5)];
+
+    it("should put the most frecent projects first", () => {
+      const sorted = sortByFrecency(projects, entries).map((p) => p.path);
+      expect(sorted).toEqual(["/c", "/b", "/a", "/d"]);
+    });
+
+    it("should support ascending order", () => {
+      const sorted = sortByFrecency(projects, entries, "asc").map((p) => p.path);
+      expect(sorted).toEqual(["/a", "/d", "/b", "/c"]);
+    });
+  });
+
+  describe("FrecencyStore", () => {
+    let dir: string;
+    let store: FrecencyStore;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), "pj-frecency-"));
+      store = new FrecencyStore(path.join(dir, "frecency.json"));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it("should record and persist visits", async () => {
+      await store.recordVisit("/work/api");
+      await Promise.all([store.recordVisit("/work/api"), store.recordVisit(project("/work/web"))]);
+
+      const reopened = new FrecencyStore(store.getPath());
+      const entries = await reopened.getEntries();
+
+      expect(entries.map((e) => [e.path, e.visits])).toEqual([
+        ["/work/api", 2],
+        ["/work/web", 1],
+      ]);
+    });
+
+    it("should forget entries that decay below the minimum rank", async () => {
+      await store.recordVisit("/once");
+      await store.recordVisit("/twice");
+      await store.recordVisit("/twice");
+
+      const removed = await store.decay(0.5);
+
+      expect(removed).toEqual(["/once"]);
+      expect((await store.getEntry("/twice"))?.rank).toBe(1);
+    });
+
+    it("should reject invalid decay factors", async () => {
+      await expect(store.decay(0)).rejects.toThrow(RangeError);
+      await expect(store.decay(1.5)).rejects.toThrow(RangeError);
+    });
+
+    it("should prune projects that no longer exist", async () => {
+      await store.recordVisit(dir);
+      await store.recordVisit(path.join(dir, "missing"));
+
+      const removed = await store.prune();
+
+      expect(removed).toEqual([path.join(dir, "missing")]);
+      expect((await store.getEntries()).map((e) => e.path)).toEqual([dir]);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import { fuzzyMatch, rankProjects, scoreProject } from "../../src/api/fuzzy.js";
+import type { Project } from "../../src/api/types.js";
+
+function project(path: string): Project {
+  return {
+    path,
+    displayPath: undefined,
+    name: path.slice(path.lastIndexOf("/") + 1),
+    marker: ".git",
+    label: undefined,
+    displayLabel: undefined,
+    icon: undefined,
+    ansiIcon: undefined,
+    color: undefined,
+    priority: undefined,
+    isWorktree: undefined,
+    worktreeParent: undefined,
+  };
+}
+
+describe("Fuzzy Matching", () => {
+  describe("fuzzyMatch", () => {
+    it("should match a case-insensitive subsequence", () => {
+      const match = fuzzyMatch("PJN", "pj-node");
+      expect(match).not.toBeNull();
+      expect(match?.ranges).toEqual([
+        [0, 2],
+        [3, 4],
+      ]);
+    });
+
+    it("should return null when the query is not a subsequence", () => {
+      expect(fuzzyMatch("xyz", "pj-node")).toBeNull();
+      expect(fuzzyMatch("nodejs", "node")).toBeNull();
+    });
+
+    it("should return an empty match for an empty query", () => {
+      expect(fuzzyMatch("", "anything")).toEqual({ score: 0, ranges: [] });
+    });
+
+    it("should prefer word boundaries over mid-word matches", () => {
+      const match = fuzzyMatch("ab", "xaxb-a-b");
+      expect(match?.ranges).toEqual([
+        [5, 6],
+        [7, 8],
+      ]);
+    });
+
+    it("should score consecutive matches higher than scattered ones", () => {
+      const consecutive = fuzzyMatch("api", "my-api");
+      const scattered = fuzzyMatch("api", "a-p-i-x");
+      expect(consecutive?.score).toBeGreaterThan(scattered?.score ?? Infinity);
+    });
+
+    it("should report ranges in the original string for multi-unit characters", () => {
+      expect(fuzzyMatch("ab", "😀a😀b")?.ranges).toEqual([
+        [2, 3],
+        [5, 6],
+      ]);
+      // "İ" lowercases to two characters, which must not shift later matches
+      expect(fuzzyMatch("bul", "İstanbul")?.ranges).toEqual([[5, 8]]);
+    });
+
+    it("should reward camelCase transitions", () => {
+      const camel = fuzzyMatch("fb", "fooBar");
+      const plain = fuzzyMatch("fb", "foobar");
+      expect(camel?.score).toBeGreaterThan(plain?.score ?? Infinity);
+    });
+  });
+
+  describe("scoreProject", () => {
+    it("should report name ranges for name matches", () => {
+      const match = scoreProject("gate", project("/work/services/public-gateway"));
+      expect(match?.nameRanges).toEqual([[7, 11]]);
+      expect(match?.pathRanges).toEqual([]);
+    });
+
+    it("should fall back to path matches", () => {
+      const match = scoreProject("svc", project("/work/svc/api"));
+      expect(match?.nameRanges).toEqual([]);
+      expect(match?.pathRanges).toEqual([[6, 9]]);
+    });
+
+    it("should match display names and aliases", () => {
+      const p = {
+        ...project("/work/svc-gw-2"),
+        displayName: "Public Gateway",
+        aliases: ["edge", "ingress"],
+      };
+
+      const display = scoreProject("gateway", p);
+      expect(display?.displayNameRanges).toEqual([[7, 14]]);
+      expect(display?.nameRanges).toEqual([]);
+
+      const alias = scoreProject("ingres", p);
+      expect(alias?.matchedAliases).toEqual(["ingress"]);
+      expect(alias?.pathRanges).toEqual([]);
+
+      expect(scoreProject("svc", p)?.nameRanges).toEqual([[0, 3]]);
+    });
+
+    it("should require every whitespace-separated term to match", () => {
+      const p = project("/work/platform/api");
+      expect(scoreProject("work api", p)).not.toBeNull();
+      expect(scoreProject("work zzz", p)).toBeNull();
+    });
+  });
+
+  describe("rankProjects", () => {
+    it("should order projects by score", () => {
+      const projects = [
+        project("/code/a-p-i-tools"),
+        project("/code/other"),
+        project("/code/api"),
+        project("/code/my-api-server"),
+      ];
+
+      const ranked = rankProjects("api", projects).map((m) => m.project.name);
+
+      expect(ranked).toEqual(["api", "my-api-server", "a-p-i-tools"]);
+    });
+  });
+});
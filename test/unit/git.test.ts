@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { parseGitStatus } from "../../src/enrich/git.js";
+import { mapWithConcurrency } from "../../src/enrich/concurrency.js";
+
+describe("Git Status", () => {
+  describe("parseGitStatus", () => {
+    it("should parse branch headers and change counts", () => {
+      const output = [
+        "# branch.oid 1a2b3c4d5e6f",
+        "# branch.head main",
+        "# branch.upstream origin/main",
+        "# branch.ab +2 -1",
+        "1 M. N... 100644 100644 100644 abc abc src/a.ts",
+        "1 .M N... 100644 100644 100644 abc abc src/b.ts",
+        "1 MM N... 100644 100644 100644 abc abc src/c.ts",
+        "2 R. N... 100644 100644 100644 abc abc R100 new.ts\told.ts",
+        "u UU N... 100644 100644 100644 100644 abc abc abc conflict.ts",
+        "? notes.txt",
+        "? scratch/",
+      ].join("\n");
+
+      expect(parseGitStatus(output)).toEqual({
+        branch: "main",
+        head: "1a2b3c4d5e6f",
+        detached: false,
+        dirty: true,
+        staged: 3,
+        modified: 2,
+        conflicted: 1,
+        untracked: 2,
+        upstream: "origin/main",
+        ahead: 2,
+        behind: 1,
+      });
+    });
+
+    it("should report a clean repository without upstream", () => {
+      const status = parseGitStatus("# branch.oid abc\n# branch.head feature\n");
+      expect(status.dirty).toBe(false);
+      expect(status.upstream).toBeUndefined();
+      expect(status.ahead).toBeUndefined();
+    });
+
+    it("should handle detached HEAD and unborn branches", () => {
+      expect(parseGitStatus("# branch.oid abc\n# branch.head (detached)\n")).toMatchObject({
+        branch: undefined,
+        detached: true,
+      });
+      expect(parseGitStatus("# branch.oid (initial)\n# branch.head main\n").head).toBeUndefined();
+    });
+  });
+
+  describe("mapWithConcurrency", () => {
+    it("should preserve order and bound concurrency", async () => {
+      let active = 0;
+      let peak = 0;
+
+      const results = await mapWithConcurrency([5, 1, 4, 2, 3], 2, async (n) => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, n));
+        active--;
+        return n * 10;
+      });
+
+      expect(results).toEqual([50, 10, 40, 20, 30]);
+      expect(peak).toBe(2);
+    });
+  });
+});
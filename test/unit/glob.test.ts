@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  expandDirectoryGlob,
+  globToRegExp,
+  hasGlobMagic,
+} from "../../src/native/glob.js";
+import { isIgnored, parseIgnoreFile } from "../../src/native/ignore.js";
+
+describe("Glob Matching", () => {
+  describe("globToRegExp", () => {
+    it("should match * within a single path segment", () => {
+      const re = globToRegExp("src/*.ts");
+      expect(re.test("src/index.ts")).toBe(true);
+      expect(re.test("src/api/pj.ts")).toBe(false);
+    });
+
+    it("should match ** across path segments", () => {
+      const re = globToRegExp("**/dist/**");
+      expect(re.test("dist/index.js")).toBe(true);
+      expect(re.test("packages/a/dist/index.js")).toBe(true);
+      expect(re.test("packages/a/src/index.js")).toBe(false);
+    });
+
+    it("should support character classes and negation", () => {
+      expect(globToRegExp("v[0-9]").test("v1")).toBe(true);
+      expect(globToRegExp("v[!0-9]").test("v1")).toBe(false);
+      expect(globToRegExp("v[!0-9]").test("vx")).toBe(true);
+    });
+
+    it("should support brace alternatives", () => {
+      const re = globToRegExp("~/clients/{acme,globex}/*");
+      expect(re.test("~/clients/acme/web")).toBe(true);
+      expect(re.test("~/clients/globex/api")).toBe(true);
+      expect(re.test("~/clients/initech/api")).toBe(false);
+    });
+
+    it("should escape regex characters", () => {
+      expect(globToRegExp("a.b+c").test("a.b+c")).toBe(true);
+      expect(globToRegExp("a.b+c").test("axb+c")).toBe(false);
+    });
+  });
+
+  describe("hasGlobMagic", () => {
+    it("should detect glob syntax", () => {
+      expect(hasGlobMagic("~/work/*/repos")).toBe(true);
+      expect(hasGlobMagic("~/clients/{a,b}")).toBe(true);
+      expect(hasGlobMagic("~/projects")).toBe(false);
+    });
+  });
+});
+
+describe("expandDirectoryGlob", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "pj-glob-"));
+    for (const sub of ["a/x", "a/y", "b/x", ".hidden/x", "node_modules/x"]) {
+      await fs.mkdir(path.join(dir, sub), { recursive: true });
+    }
+    await fs.writeFile(path.join(dir, "a/file"), "");
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should expand wildcards into existing directories", async () => {
+    expect(await expandDirectoryGlob("*/x", dir)).toEqual([
+      path.join(dir, "a/x"),
+      path.join(dir, "b/x"),
+    ]);
+    expect(await expandDirectoryGlob("a/*", dir)).toEqual([
+      path.join(dir, "a/x"),
+      path.join(dir, "a/y"),
+    ]);
+  });
+
+  it("should expand ** to any depth, skipping hidden directories", async () => {
+    const matches = await expandDirectoryGlob("**/x", dir);
+    expect(matches).toEqual([path.join(dir, "a/x"), path.join(dir, "b/x")]);
+  });
+
+  it("should resolve literal paths only if they exist", async () => {
+    expect(await expandDirectoryGlob("./b", dir)).toEqual([path.join(dir, "b")]);
+    expect(await expandDirectoryGlob("c", dir)).toEqual([]);
+  });
+});
+
+describe("Gitignore Rules", () => {
+  const base = "/repo";
+
+  it("should match unanchored patterns at any depth", () => {
+    const rules = parseIgnoreFile("build\n", base);
+    expect(isIgnored(rules, "/repo/build", true)).toBe(true);
+    expect(isIgnored(rules, "/repo/packages/a/build", true)).toBe(true);
+  });
+
+  it("should anchor patterns containing a slash", () => {
+    const rules = parseIgnoreFile("/out\ndocs/generated\n", base);
+    expect(isIgnored(rules, "/repo/out", true)).toBe(true);
+    expect(isIgnored(rules, "/repo/sub/out", true)).toBe(false);
+    expect(isIgnored(rules, "/repo/docs/generated", true)).toBe(true);
+  });
+
+  it("should only apply trailing-slash patterns to directories", () => {
+    const rules = parseIgnoreFile("logs/\n", base);
+    expect(isIgnored(rules, "/repo/logs", true)).toBe(true);
+    expect(isIgnored(rules, "/repo/logs", false)).toBe(false);
+  });
+
+  it("should let later negations re-include paths", () => {
+    const rules = parseIgnoreFile("tmp-*\n!tmp-keep\n", base);
+    expect(isIgnored(rules, "/repo/tmp-a", true)).toBe(true);
+    expect(isIgnored(rules, "/repo/tmp-keep", true)).toBe(false);
+  });
+
+  it("should skip comments and blank lines", () => {
+    expect(parseIgnoreFile("# comment\n\n   \n", base)).toEqual([]);
+  });
+
+  it("should not apply rules outside their base directory", () => {
+    const rules = parseIgnoreFile("build\n", base);
+    expect(isIgnored(rules, "/other/build", true)).toBe(false);
+  });
+});
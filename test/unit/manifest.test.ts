@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseCargoToml,
+  parseFlakeNix,
+  parseGoMod,
+  parsePackageJson,
+  parsePyprojectToml,
+} from "../../src/enrich/manifest.js";
+
+describe("Manifest Parsing", () => {
+  describe("parsePackageJson", () => {
+    it("should read declared metadata", () => {
+      const metadata = parsePackageJson(
+        JSON.stringify({
+          name: "@acme/api",
+          version: "1.2.3",
+          description: "Public API",
+          license: "MIT",
+          devDependencies: { typescript: "^5.0.0" },
+        })
+      );
+
+      expect(metadata).toEqual({
+        manifest: "package.json",
+        ecosystem: "node",
+        language: "TypeScript",
+        name: "@acme/api",
+        version: "1.2.3",
+        description: "Public API",
+        license: "MIT",
+      });
+    });
+
+    it("should default to JavaScript and tolerate missing fields", () => {
+      const metadata = parsePackageJson("{}");
+      expect(metadata.language).toBe("JavaScript");
+      expect(metadata.name).toBeUndefined();
+    });
+  });
+
+  describe("parseCargoToml", () => {
+    it("should read the package table", () => {
+      const metadata = parseCargoToml(
+        '[package]\nname = "pj"\nversion = "0.1.0"\ndescription = "Project finder"\nlicense = "MIT OR Apache-2.0"\n'
+      );
+
+      expect(metadata).toMatchObject({
+        ecosystem: "rust",
+        language: "Rust",
+        name: "pj",
+        version: "0.1.0",
+        description: "Project finder",
+        license: "MIT OR Apache-2.0",
+      });
+    });
+
+    it("should ignore workspace-inherited fields", () => {
+      const metadata = parseCargoToml('[package]\nname = "member"\nversion.workspace = true\n');
+      expect(metadata.name).toBe("member");
+      expect(metadata.version).toBeUndefined();
+    });
+  });
+
+  describe("parseGoMod", () => {
+    it("should read the module path as the name", () => {
+      const metadata = parseGoMod("module github.com/josephschmitt/pj\n\ngo 1.22\n");
+      expect(metadata).toMatchObject({
+        ecosystem: "go",
+        language: "Go",
+        name: "github.com/josephschmitt/pj",
+      });
+    });
+  });
+
+  describe("parsePyprojectToml", () => {
+    it("should read the project table", () => {
+      const metadata = parsePyprojectToml(
+        '[project]\nname = "tool"\nversion = "2.0"\ndescription = "A tool"\nlicense = { text = "BSD-3-Clause" }\n'
+      );
+
+      expect(metadata).toMatchObject({
+        ecosystem: "python",
+        name: "tool",
+        version: "2.0",
+        description: "A tool",
+        license: "BSD-3-Clause",
+      });
+    });
+
+    it("should fall back to the poetry table", () => {
+      const metadata = parsePyprojectToml(
+        '[tool.poetry]\nname = "legacy"\nversion = "0.3.0"\nlicense = "MIT"\n'
+      );
+
+      expect(metadata).toMatchObject({ name: "legacy", version: "0.3.0", license: "MIT" });
+    });
+  });
+
+  describe("parseFlakeNix", () => {
+    it("should read the flake description", () => {
+      const metadata = parseFlakeNix(
+        '{\n  description = "My \\"dev\\" shell";\n  inputs = {};\n}\n'
+      );
+
+      expect(metadata).toMatchObject({
+        ecosystem: "nix",
+        language: "Nix",
+        description: 'My "dev" shell',
+      });
+    });
+  });
+});
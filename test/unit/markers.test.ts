@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { detectMarkers, orderMarkers } from "../../src/enrich/markers.js";
+
+describe("Markers", () => {
+  describe("orderMarkers", () => {
+    it("should order present markers by priority", () => {
+      const ordered = orderMarkers(
+        new Set([".git", "package.json", "README.md"]),
+        [".git", "package.json", "Cargo.toml"],
+        { ".git": 1, "package.json": 10 }
+      );
+      expect(ordered).toEqual(["package.json", ".git"]);
+    });
+
+    it("should keep configured order on ties", () => {
+      const ordered = orderMarkers(
+        new Set(["go.mod", "Makefile"]),
+        ["Makefile", "go.mod"],
+        {}
+      );
+      expect(ordered).toEqual(["Makefile", "go.mod"]);
+    });
+  });
+
+  describe("detectMarkers", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), "pj-markers-"));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it("should find every marker including nested paths", async () => {
+      await fs.mkdir(path.join(dir, ".vscode"));
+      await fs.writeFile(path.join(dir, ".vscode", "settings.json"), "{}");
+      await fs.writeFile(path.join(dir, "package.json"), "{}");
+
+      const markers = await detectMarkers(
+        dir,
+        [".git", "package.json", ".vscode/settings.json"],
+        { "package.json": 10 }
+      );
+      expect(markers).toEqual(["package.json", ".vscode/settings.json"]);
+    });
+
+    it("should return nothing for a missing directory", async () => {
+      expect(await detectMarkers(path.join(dir, "nope"), [".git"], {})).toEqual([]);
+    });
+  });
+});
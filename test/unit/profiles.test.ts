@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { PjConfigError } from "../../src/api/types.js";
+import { loadConfig, saveConfig } from "../../src/api/config.js";
+import {
+  explainConfig,
+  resolveConfig,
+  writeProfileConfig,
+} from "../../src/api/config-layers.js";
+import { validateConfigContent } from "../../src/api/config-validation.js";
+import { discoveryKey } from "../../src/api/discover.js";
+import { getPjCacheDir, getProfileCacheHome } from "../../src/binary/constants.js";
+
+describe("Config Profiles", () => {
+  let tempDir: string;
+  let configPath: string;
+  const layerOptions = (): { configPath: string; systemConfigPath: string; cwd: false } => ({
+    configPath,
+    systemConfigPath: path.join(tempDir, "missing.yaml"),
+    cwd: false,
+  });
+
+  beforeEach(async () => {
+    tempDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), "pj-profiles-")));
+    configPath = path.join(tempDir, "config.yaml");
+    await fs.writeFile(
+      configPath,
+      `paths:
+  - /code
+markers:
+  - .git
+max_depth: 3
+profiles:
+  work:
+    paths:
+      - /work
+    markers:
+      - go.mod
+    exclude:
+      - vendor
+  personal:
+    max_depth: 5
+`
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("should parse and save profiles", async () => {
+    const config = await loadConfig(configPath);
+    expect(config.profiles).toEqual({
+      work: { paths: ["/work"], markers: ["go.mod"], exclude: ["vendor"] },
+      personal: { maxDepth: 5 },
+    });
+
+    const savedPath = path.join(tempDir, "saved.yaml");
+    await saveConfig(config, savedPath);
+    expect((await loadConfig(savedPath)).profiles).toEqual(config.profiles);
+  });
+
+  it("should apply the selected profile on top of the config files", async () => {
+    const config = await resolveConfig({ ...layerOptions(), profile: "work" });
+
+    expect(config.paths).toEqual(["/work"]);
+    expect(config.markers).toEqual(["go.mod"]);
+    expect(config.exclude).toEqual(["vendor"]);
+    expect(config.maxDepth).toBe(3);
+  });
+
+  it("should select the profile from PJ_PROFILE", async () => {
+    const config = await resolveConfig({ ...layerOptions(), env: { PJ_PROFILE: "personal" } });
+    expect(config.paths).toEqual(["/code"]);
+    expect(config.maxDepth).toBe(5);
+
+    const unset = await resolveConfig({ ...layerOptions(), env: { PJ_PROFILE: "" } });
+    expect(unset.maxDepth).toBe(3);
+  });
+
+  it("should explain values set by a profile", async () => {
+    const sources = await explainConfig({ ...layerOptions(), profile: "work" });
+    const find = (key: string) => sources.find((entry) => entry.key === key);
+
+    expect(find("paths")).toMatchObject({ layer: "profile", source: configPath });
+    expect(find("maxDepth")).toMatchObject({ layer: "user", source: configPath });
+  });
+
+  it("should reject unknown profiles", async () => {
+    await expect(resolveConfig({ ...layerOptions(), profile: "play" })).rejects.toThrow(
+      PjConfigError
+    );
+    await expect(resolveConfig({ ...layerOptions(), profile: "play" })).rejects.toThrow(
+      'Unknown profile "play"; available profiles: work, personal'
+    );
+  });
+
+  it("should write the profile config to the profile cache home", async () => {
+    const previous = process.env["XDG_CACHE_HOME"];
+    process.env["XDG_CACHE_HOME"] = path.join(tempDir, "cache");
+    try {
+      const written = await writeProfileConfig("work", layerOptions());
+
+      expect(written).toBe(path.join(getProfileCacheHome("work"), "config.yaml"));
+      const config = await loadConfig(written);
+      expect(config.paths).toEqual(["/work"]);
+      expect(config.profiles).toEqual({});
+    } finally {
+      if (previous === undefined) {
+        delete process.env["XDG_CACHE_HOME"];
+      } else {
+        process.env["XDG_CACHE_HOME"] = previous;
+      }
+    }
+  });
+
+  it("should give each profile its own cache", () => {
+    expect(getPjCacheDir("work")).not.toBe(getPjCacheDir("personal"));
+    expect(getPjCacheDir("work")).not.toBe(getPjCacheDir());
+    expect(discoveryKey({ profile: "work" })).not.toBe(discoveryKey({ profile: "personal" }));
+  });
+
+  it("should validate profile settings", () => {
+    expect(validateConfigContent("profiles:\n  work:\n    paths: [~/work]\n")).toEqual([]);
+
+    const diagnostics = validateConfigContent("profiles:\n  work:\n    max_depth: deep\n");
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]?.path).toEqual(["profiles", "work", "max_depth"]);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { Project, ProjectSettings } from "../../src/api/types.js";
+import { loadConfig, saveConfig } from "../../src/api/config.js";
+import { discoverByMarker, findProject, findProjects } from "../../src/api/discover.js";
+import { createSettingsApplier, hasTags } from "../../src/api/project-settings.js";
+
+function project(projectPath: string): Project {
+  return {
+    path: projectPath,
+    displayPath: undefined,
+    name: path.basename(projectPath),
+    marker: ".git",
+    label: undefined,
+    displayLabel: undefined,
+    icon: undefined,
+    ansiIcon: undefined,
+    color: undefined,
+    priority: undefined,
+    isWorktree: undefined,
+    worktreeParent: undefined,
+  };
+}
+
+const gateway = "/work/platform/services/public-gateway";
+
+function applyProjectSettings(
+  projects: Project[],
+  settings: Record<string, ProjectSettings>
+): Project[] {
+  return projects.map(createSettingsApplier(settings));
+}
+
+const settings = {
+  "/work/**": { tags: ["work"] },
+  [gateway]: { name: "Gateway", aliases: ["api", "gw"], tags: ["go"] },
+  "/work/platform/services/*": { name: "Service", tags: ["work"] },
+};
+
+describe("Project settings", () => {
+  describe("applyProjectSettings", () => {
+    it("should merge every matching entry", () => {
+      const [applied, other] = applyProjectSettings(
+        [project(gateway), project("/oss/lib")],
+        settings
+      );
+
+      expect(applied).toMatchObject({
+        displayName: "Gateway",
+        aliases: ["api", "gw"],
+        tags: ["work", "go"],
+      });
+      expect(other).toEqual(project("/oss/lib"));
+    });
+
+    it("should add the tags of search paths", () => {
+      const apply = createSettingsApplier({}, [
+        "/oss",
+        { path: "/work/platform", tags: ["platform"] },
+      ]);
+
+      expect(apply(project(gateway)).tags).toEqual(["platform"]);
+      expect(apply(project("/work/platformer")).tags).toBeUndefined();
+    });
+
+    it("should match tags ignoring case", () => {
+      const [applied] = applyProjectSettings([project(gateway)], settings);
+      expect(hasTags(applied as Project, ["GO", "work"])).toBe(true);
+      expect(hasTags(applied as Project, ["oss"])).toBe(false);
+    });
+  });
+
+  describe("finders", () => {
+    const discoverer = (): Promise<Project[]> =>
+      Promise.resolve(
+        applyProjectSettings(
+          [project("/work/api"), project(gateway), project("/oss/lib")],
+          settings
+        )
+      );
+
+    it("should resolve aliases before names", async () => {
+      expect((await findProject("api", {}, discoverer))?.path).toBe(gateway);
+      expect((await findProject("gateway", {}, discoverer))?.path).toBe(gateway);
+    });
+
+    it("should match patterns against aliases", async () => {
+      const matches = await findProjects(/^gw$/, {}, discoverer);
+      expect(matches.map((p) => p.path)).toEqual([gateway]);
+    });
+
+    it("should group projects by tag", async () => {
+      const grouped = await discoverByMarker({ groupBy: "tag" }, discoverer);
+      expect([...grouped.keys()]).toEqual(["work", "go"]);
+      expect(grouped.get("work")).toHaveLength(2);
+    });
+  });
+
+  describe("config file", () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "pj-settings-"));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it("should round-trip the projects section", async () => {
+      const configPath = path.join(tempDir, "config.yaml");
+      await saveConfig({ projects: { "~/oss/*": { tags: ["oss"] } } }, configPath);
+
+      expect((await loadConfig(configPath)).projects).toEqual({
+        "~/oss/*": { tags: ["oss"] },
+      });
+    });
+
+    it("should default to no project settings", async () => {
+      const config = await loadConfig(path.join(tempDir, "missing.yaml"));
+      expect(config.projects).toEqual({});
+    });
+  });
+});
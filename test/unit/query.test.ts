@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { GitStatus, Project } from "../../src/api/types.js";
+import { PjQueryError } from "../../src/api/types.js";
+import {
+  createProjectFilter,
+  parseProjectQuery,
+  queryNeedsGit,
+} from "../../src/api/query.js";
+
+function project(overrides: Partial<Project>): Project {
+  return {
+    path: "/work/api",
+    displayPath: undefined,
+    name: "api",
+    marker: ".git",
+    label: undefined,
+    displayLabel: undefined,
+    icon: undefined,
+    ansiIcon: undefined,
+    color: undefined,
+    priority: undefined,
+    isWorktree: undefined,
+    worktreeParent: undefined,
+    ...overrides,
+  };
+}
+
+function git(overrides: Partial<GitStatus>): GitStatus {
+  return {
+    branch: "main",
+    head: "abc",
+    detached: false,
+    dirty: false,
+    staged: 0,
+    modified: 0,
+    conflicted: 0,
+    untracked: 0,
+    upstream: undefined,
+    ahead: undefined,
+    behind: undefined,
+    lastCommit: undefined,
+    ...overrides,
+  };
+}
+
+describe("Project Queries", () => {
+  describe("parseProjectQuery", () => {
+    it("should parse fields, flags, negation and text", () => {
+      const query = parseProjectQuery(
+        "marker:go.mod name:api path:~/work -worktree is:dirty cli"
+      );
+
+      expect(query.terms).toEqual([
+        { type: "field", field: "marker", values: ["go.mod"], negated: false },
+        { type: "field", field: "name", values: ["api"], negated: false },
+        { type: "field", field: "path", values: ["~/work"], negated: false },
+        { type: "flag", flags: ["worktree"], negated: true },
+        { type: "flag", flags: ["dirty"], negated: false },
+        { type: "text", value: "cli", negated: false },
+      ]);
+    });
+
+    it("should support quoted values and alternatives", () => {
+      const query = parseProjectQuery('label:"Go Module" marker:go.mod,Cargo.toml "dirty"');
+
+      expect(query.terms).toEqual([
+        { type: "field", field: "label", values: ["Go Module"], negated: false },
+        {
+          type: "field",
+          field: "marker",
+          values: ["go.mod", "Cargo.toml"],
+          negated: false,
+        },
+        { type: "text", value: "dirty", negated: false },
+      ]);
+    });
+
+    it("should report errors with their position", () => {
+      expect(() => parseProjectQuery("name:api colour:red")).toThrow(PjQueryError);
+      expect(() => parseProjectQuery("name:api colour:red")).toThrow(
+        'Unknown field "colour" at position 9'
+      );
+      expect(() => parseProjectQuery("is:shiny")).toThrow('Unknown flag "shiny"');
+      expect(() => parseProjectQuery("name:")).toThrow('Missing value for "name"');
+      expect(() => parseProjectQuery('label:"open')).toThrow("Unterminated quote");
+      expect(() => parseProjectQuery("api -")).toThrow('Expected a term after "-"');
+    });
+
+    it("should detect queries that need git status", () => {
+      expect(queryNeedsGit(parseProjectQuery("name:api -worktree"))).toBe(false);
+      expect(queryNeedsGit(parseProjectQuery("-is:dirty"))).toBe(true);
+    });
+  });
+
+  describe("createProjectFilter", () => {
+    it("should match every term", () => {
+      const filter = createProjectFilter("marker:go.mod name:API");
+
+      expect(filter(project({ marker: "go.mod" }))).toBe(true);
+      expect(filter(project({ marker: "Cargo.toml" }))).toBe(false);
+      expect(filter(project({ marker: "go.mod", name: "web" }))).toBe(false);
+    });
+
+    it("should match paths under a directory", () => {
+      const home = os.homedir();
+      const filter = createProjectFilter("path:~/work");
+
+      expect(filter(project({ path: path.join(home, "work", "api") }))).toBe(true);
+      expect(filter(project({ path: path.join(home, "workshop") }))).toBe(false);
+      expect(createProjectFilter("path:work")(project({ path: "/x/work/api" }))).toBe(
+        true
+      );
+    });
+
+    it("should support globs and negated flags", () => {
+      const filter = createProjectFilter("name:api-* -worktree");
+
+      expect(filter(project({ name: "api-gateway" }))).toBe(true);
+      expect(filter(project({ name: "api-gateway", isWorktree: true }))).toBe(false);
+      expect(filter(project({ name: "my-api" }))).toBe(false);
+    });
+
+    it("should evaluate git flags against git status", () => {
+      const filter = createProjectFilter("is:dirty,ahead");
+
+      expect(filter(project({ git: git({ dirty: true }) }))).toBe(true);
+      expect(filter(project({ git: git({ ahead: 2 }) }))).toBe(true);
+      expect(filter(project({ git: git({}) }))).toBe(false);
+      expect(filter(project({}))).toBe(false);
+    });
+
+    it("should match tags and aliases from the config", () => {
+      const gateway = project({ name: "public-gateway", aliases: ["gw"], tags: ["Work"] });
+
+      expect(createProjectFilter("tag:work name:gw")(gateway)).toBe(true);
+      expect(createProjectFilter("tag:oss")(gateway)).toBe(false);
+      expect(createProjectFilter("tag:w*")(gateway)).toBe(true);
+    });
+
+    it("should match bare words like name:", () => {
+      const gateway = project({
+        name: "public-gateway",
+        displayName: "Edge Proxy",
+        aliases: ["gw"],
+      });
+
+      expect(createProjectFilter("gw")(gateway)).toBe(true);
+      expect(createProjectFilter("proxy")(gateway)).toBe(true);
+      expect(createProjectFilter("gate")(gateway)).toBe(true);
+      expect(createProjectFilter("-gw")(gateway)).toBe(false);
+      expect(createProjectFilter("web")(gateway)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { Project } from "../../src/api/types.js";
+import {
+  normalizeRemoteUrl,
+  parseGitConfigRemotes,
+  readGitRemotes,
+} from "../../src/enrich/remotes.js";
+import { groupDuplicates } from "../../src/api/duplicates.js";
+
+function project(projectPath: string, overrides?: Partial<Project>): Project {
+  return {
+    path: projectPath,
+    displayPath: undefined,
+    name: path.basename(projectPath),
+    marker: ".git",
+    label: undefined,
+    displayLabel: undefined,
+    icon: undefined,
+    ansiIcon: undefined,
+    color: undefined,
+    priority: undefined,
+    isWorktree: undefined,
+    worktreeParent: undefined,
+    ...overrides,
+  };
+}
+
+describe("Git Remotes", () => {
+  describe("normalizeRemoteUrl", () => {
+    it("should treat ssh, scp-like and https URLs alike", () => {
+      const urls = [
+        "git@github.com:Joe/pj.git",
+        "ssh://git@github.com/joe/pj",
+        "ssh://git@github.com:22/joe/pj.git",
+        "https://github.com/joe/pj.git",
+        "https://user@github.com/joe/pj/",
+        "git://github.com/joe/pj.git",
+      ];
+      for (const url of urls) {
+        expect(normalizeRemoteUrl(url)).toBe("github.com/joe/pj");
+      }
+    });
+
+    it("should keep local paths", () => {
+      expect(normalizeRemoteUrl("/srv/git/pj.git")).toBe("/srv/git/pj");
+      expect(normalizeRemoteUrl("file:///srv/git/pj.git")).toBe("/srv/git/pj");
+    });
+  });
+
+  describe("parseGitConfigRemotes", () => {
+    it("should read remote URLs in order", () => {
+      const config = `
+[core]
+\tbare = false
+[remote "upstream"]
+\turl = https://github.com/joe/pj.git
+\tfetch = +refs/heads/*:refs/remotes/upstream/*
+[remote "origin"]
+\turl = "git@github.com:me/pj.git" # my fork
+[branch "main"]
+\tremote = origin
+`;
+      expect(parseGitConfigRemotes(config)).toEqual([
+        { name: "upstream", url: "https://github.com/joe/pj.git" },
+        { name: "origin", url: "git@github.com:me/pj.git" },
+      ]);
+    });
+  });
+
+  describe("reading checkouts", () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "pj-remotes-"));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    async function clone(name: string, url: string): Promise<string> {
+      const dir = path.join(tempDir, name);
+      await fs.mkdir(path.join(dir, ".git"), { recursive: true });
+      await fs.writeFile(
+        path.join(dir, ".git", "config"),
+        `[remote "origin"]\n\turl = ${url}\n`
+      );
+      return dir;
+    }
+
+    async function worktree(name: string, repo: string): Promise<string> {
+      const dir = path.join(tempDir, name);
+      const gitDir = path.join(repo, ".git", "worktrees", name);
+      await fs.mkdir(gitDir, { recursive: true });
+      await fs.writeFile(path.join(gitDir, "commondir"), "../..\n");
+      await fs.mkdir(dir);
+      await fs.writeFile(path.join(dir, ".git"), `gitdir: ${gitDir}\n`);
+      return dir;
+    }
+
+    it("should follow worktree gitdir files to the main config", async () => {
+      const repo = await clone("app", "git@github.com:joe/app.git");
+      const tree = await worktree("app-feature", repo);
+
+      expect(await readGitRemotes(tree)).toEqual([
+        { name: "origin", url: "git@github.com:joe/app.git" },
+      ]);
+      expect(await readGitRemotes(tempDir)).toEqual([]);
+    });
+
+    it("should group clones of the same remote but not worktrees", async () => {
+      const a = await clone("a", "git@github.com:joe/app.git");
+      const b = await clone("b", "https://github.com/joe/app");
+      const other = await clone("other", "https://github.com/joe/other");
+      const tree = await worktree("a-feature", a);
+
+      const groups = await groupDuplicates([
+        project(tree, { isWorktree: true, worktreeParent: a }),
+        project(a),
+        project(b),
+        project(other),
+      ]);
+
+      expect(groups).toHaveLength(1);
+      expect(groups[0]?.remote).toBe("github.com/joe/app");
+      expect(groups[0]?.projects.map((p) => p.path).sort()).toEqual([a, b]);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { PjAbortError } from "../../src/api/types.js";
+import { ResultCache } from "../../src/api/result-cache.js";
+import { Pj } from "../../src/api/pj.js";
+
+/**
+ * Create a loader that counts calls and resolves when released
+ */
+function controlledLoader(): {
+  load: (signal: AbortSignal) => Promise<number>;
+  release: () => void;
+  calls: () => number;
+  signals: AbortSignal[];
+} {
+  let count = 0;
+  const releases: (() => void)[] = [];
+  const signals: AbortSignal[] = [];
+
+  return {
+    load: (signal) => {
+      count++;
+      signals.push(signal);
+      const value = count;
+      return new Promise((resolve) => releases.push(() => { resolve(value); }));
+    },
+    release: () => {
+      for (const release of releases.splice(0)) release();
+    },
+    calls: () => count,
+    signals,
+  };
+}
+
+describe("ResultCache", () => {
+  it("should coalesce concurrent loads and cache the result", async () => {
+    const cache = new ResultCache<number>(() => 60000);
+    const loader = controlledLoader();
+
+    const first = cache.get("a", loader.load);
+    const second = cache.get("a", loader.load);
+    loader.release();
+
+    expect(await first).toBe(1);
+    expect(await second).toBe(1);
+    expect(await cache.get("a", loader.load)).toBe(1);
+    expect(loader.calls()).toBe(1);
+  });
+
+  it("should reload expired results and honor refresh", async () => {
+    let ttl = 60000;
+    const cache = new ResultCache<number>(() => ttl);
+    let count = 0;
+    const load = (): Promise<number> => Promise.resolve(++count);
+
+    expect(await cache.get("a", load)).toBe(1);
+    expect(await cache.get("a", load, { refresh: true })).toBe(2);
+
+    ttl = 0;
+    expect(await cache.get("a", load)).toBe(3);
+    expect(await cache.get("a", load)).toBe(4);
+  });
+
+  it("should return stale results while revalidating", async () => {
+    let ttl = 60000;
+    const cache = new ResultCache<number>(() => ttl, true);
+    const loader = controlledLoader();
+
+    const initial = cache.get("a", loader.load);
+    loader.release();
+    await initial;
+
+    ttl = -1;
+    expect(await cache.get("a", loader.load)).toBe(1);
+    expect(loader.calls()).toBe(2);
+
+    ttl = 60000;
+    loader.release();
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(await cache.get("a", loader.load)).toBe(2);
+  });
+
+  it("should not store results loaded before invalidation", async () => {
+    const cache = new ResultCache<number>(() => 60000);
+    const loader = controlledLoader();
+
+    const first = cache.get("a", loader.load);
+    cache.invalidate();
+    loader.release();
+    await first;
+
+    expect(cache.size).toBe(0);
+  });
+
+  it("should cancel a shared load only when every caller aborts", async () => {
+    const cache = new ResultCache<number>(() => 60000);
+    const loader = controlledLoader();
+    const a = new AbortController();
+    const b = new AbortController();
+
+    const first = cache.get("a", loader.load, { signal: a.signal });
+    const second = cache.get("a", loader.load, { signal: b.signal });
+
+    a.abort();
+    await expect(first).rejects.toBeInstanceOf(PjAbortError);
+    expect(loader.signals[0]?.aborted).toBe(false);
+
+    b.abort();
+    await expect(second).rejects.toBeInstanceOf(PjAbortError);
+    expect(loader.signals[0]?.aborted).toBe(true);
+  });
+});
+
+describe("Pj result cache", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "pj-result-cache-"));
+    await fs.mkdir(path.join(root, "app", ".git"), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  const names = async (pj: Pj): Promise<string[]> => {
+    const projects = await pj.discover({
+      paths: [root],
+      engine: "native",
+      configPath: path.join(root, "missing.yaml"),
+      sort: "alpha",
+    });
+    return projects.map((p) => p.name);
+  };
+
+  it("should run pj on every call unless the cache is enabled", async () => {
+    const uncached = new Pj();
+    const cached = new Pj({ resultCache: true });
+    expect(await names(uncached)).toEqual(["app"]);
+    expect(await names(cached)).toEqual(["app"]);
+
+    await fs.mkdir(path.join(root, "tool", ".git"), { recursive: true });
+
+    expect(await names(uncached)).toEqual(["app", "tool"]);
+    expect(await names(cached)).toEqual(["app"]);
+  });
+});
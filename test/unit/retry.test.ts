@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  PjAbortError,
+  PjExecutionError,
+  PjTimeoutError,
+} from "../../src/api/types.js";
+import { retryDelay, shouldRetry, withRetry } from "../../src/cli/retry.js";
+
+describe("Retry Policy", () => {
+  const timeout = new PjTimeoutError(["--json"], 1000, 1003);
+
+  describe("PjTimeoutError", () => {
+    it("should carry the args and elapsed time", () => {
+      expect(timeout.args).toEqual(["--json"]);
+      expect(timeout.elapsedMs).toBe(1003);
+      expect(timeout.message).toBe("pj timed out after 1003ms (limit 1000ms): pj --json");
+    });
+  });
+
+  describe("shouldRetry", () => {
+    it("should never retry without a policy or past the last attempt", () => {
+      expect(shouldRetry(timeout, 1)).toBe(false);
+      expect(shouldRetry(timeout, 3, { attempts: 3 })).toBe(false);
+    });
+
+    it("should retry timeouts and listed exit codes by default", () => {
+      const policy = { attempts: 3, exitCodes: [75] };
+      expect(shouldRetry(timeout, 1, policy)).toBe(true);
+      expect(shouldRetry(new PjExecutionError("failed", 75), 1, policy)).toBe(true);
+      expect(shouldRetry(new PjExecutionError("failed", 1), 1, policy)).toBe(false);
+      expect(shouldRetry(timeout, 1, { ...policy, retryOnTimeout: false })).toBe(false);
+    });
+
+    it("should defer to shouldRetry but never retry aborts", () => {
+      const policy = { attempts: 3, shouldRetry: () => true };
+      expect(shouldRetry(new Error("ENOENT"), 1, policy)).toBe(true);
+      expect(shouldRetry(new PjAbortError("aborted"), 1, policy)).toBe(false);
+    });
+  });
+
+  describe("retryDelay", () => {
+    it("should back off exponentially up to the cap", () => {
+      const policy = { backoffMs: 100, backoffFactor: 3, maxBackoffMs: 500 };
+      expect(retryDelay(1, policy)).toBe(100);
+      expect(retryDelay(2, policy)).toBe(300);
+      expect(retryDelay(3, policy)).toBe(500);
+    });
+  });
+
+  describe("withRetry", () => {
+    it("should retry transient failures until an attempt succeeds", async () => {
+      let calls = 0;
+      const result = await withRetry(
+        () => {
+          calls++;
+          return calls < 3 ? Promise.reject(timeout) : Promise.resolve("ok");
+        },
+        { retry: { attempts: 3, backoffMs: 1 } }
+      );
+
+      expect(result).toBe("ok");
+      expect(calls).toBe(3);
+    });
+
+    it("should stop waiting when the signal is aborted", async () => {
+      const controller = new AbortController();
+      const run = withRetry(() => Promise.reject(timeout), {
+        retry: { attempts: 2, backoffMs: 60000 },
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await expect(run).rejects.toBeInstanceOf(PjAbortError);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { loadConfig, saveConfig } from "../../src/api/config.js";
+import {
+  loadFallbackConfig,
+  partitionSearchPaths,
+  resolveSearchPaths,
+} from "../../src/api/search-paths.js";
+import { resolveSettingsApplier } from "../../src/api/project-settings.js";
+import { buildArgs } from "../../src/cli/executor.js";
+
+describe("Search paths", () => {
+  describe("partitionSearchPaths", () => {
+    it("should keep a single discovery without per-path settings", () => {
+      const partitions = partitionSearchPaths({
+        paths: ["~/code", { path: "~/oss", tags: ["oss"] }],
+        maxDepth: 3,
+      });
+
+      expect(partitions).toEqual([{ paths: ["~/code", "~/oss"], maxDepth: 3 }]);
+    });
+
+    it("should split paths by their effective settings", () => {
+      const partitions = partitionSearchPaths({
+        paths: [
+          "~/code",
+          { path: "~/work", maxDepth: 5 },
+          { path: "~/scratch", maxDepth: 1, markers: [".git"] },
+          { path: "~/clients", maxDepth: 5 },
+          { path: "~/notes", maxDepth: 3 },
+        ],
+        maxDepth: 3,
+        markers: [".git", "go.mod"],
+      });
+
+      expect(partitions).toEqual([
+        { paths: ["~/code", "~/notes"], maxDepth: 3, markers: [".git", "go.mod"] },
+        { paths: ["~/work", "~/clients"], maxDepth: 5, markers: [".git", "go.mod"] },
+        { paths: ["~/scratch"], maxDepth: 1, markers: [".git"] },
+      ]);
+    });
+
+    it("should map noNested and exclude to discovery options", () => {
+      const [partition] = partitionSearchPaths({
+        paths: [{ path: "~/work", noNested: true, exclude: ["tmp"] }],
+        nested: true,
+      });
+
+      expect(partition).toEqual({ paths: ["~/work"], nested: false, excludes: ["tmp"] });
+    });
+  });
+
+  it("should pass only the directories to pj", () => {
+    expect(buildArgs({ paths: ["~/a", { path: "~/b", maxDepth: 2 }] })).toEqual([
+      "--path",
+      "~/a",
+      "--path",
+      "~/b",
+      "--json",
+    ]);
+  });
+
+  describe("config file", () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "pj-search-paths-"));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it("should round-trip path objects in snake_case", async () => {
+      const configPath = path.join(tempDir, "config.yaml");
+      const paths = [
+        "~/code",
+        { path: "~/work", maxDepth: 5, noNested: true, tags: ["work"] },
+        { path: "~/scratch", maxDepth: 1, markers: [".git"], exclude: ["tmp"] },
+      ];
+      await saveConfig({ paths }, configPath);
+
+      const content = await fs.readFile(configPath, "utf-8");
+      expect(content).toContain("max_depth: 5");
+      expect(content).toContain("no_nested: true");
+      expect((await loadConfig(configPath)).paths).toEqual(paths);
+    });
+
+    it("should expand config paths with globs before pj sees them", async () => {
+      const configPath = path.join(tempDir, "config.yaml");
+      await fs.mkdir(path.join(tempDir, "clients", "acme"), { recursive: true });
+      await fs.writeFile(
+        configPath,
+        `paths:\n  - ${tempDir}/clients/*\n  - ~/code\nexclude:\n  - \${PJ_TEST_UNSET:-tmp}\n`
+      );
+
+      const resolved = await resolveSearchPaths({ configPath });
+
+      expect(resolved?.paths).toEqual([
+        path.join(tempDir, "clients", "acme"),
+        path.join(os.homedir(), "code"),
+      ]);
+      expect(resolved?.excludes).toEqual(["tmp"]);
+      const explicit = { configPath, paths: ["~/code"], excludes: [] };
+      expect(await resolveSearchPaths(explicit)).toEqual({
+        ...explicit,
+        paths: [path.join(os.homedir(), "code")],
+      });
+    });
+
+    it("should ignore a malformed config when paths are given", async () => {
+      const configPath = path.join(tempDir, "config.yaml");
+      await fs.writeFile(configPath, "paths: [unclosed\n");
+
+      await expect(loadFallbackConfig({ configPath })).rejects.toThrow();
+      const explicit = { configPath, paths: [tempDir] };
+      await expect(loadFallbackConfig(explicit)).resolves.toBeUndefined();
+      await expect(resolveSearchPaths(explicit)).resolves.toEqual(explicit);
+
+      const apply = await resolveSettingsApplier(explicit);
+      const project = { path: path.join(tempDir, "app"), name: "app", marker: ".git" };
+      expect(apply(project)).toBe(project);
+    });
+
+    it("should apply the config's project settings when paths are given", async () => {
+      const configPath = path.join(tempDir, "config.yaml");
+      const app = path.join(tempDir, "app");
+      await fs.writeFile(
+        configPath,
+        `paths:\n  - path: ${tempDir}\n    tags: [config-path]\n` +
+          `projects:\n  ${app}:\n    name: App\n    aliases: [a]\n    tags: [work]\n`
+      );
+
+      const apply = await resolveSettingsApplier({ configPath, paths: [tempDir] });
+      const project = { path: app, name: "app", marker: ".git" };
+
+      expect(apply(project)).toEqual({
+        ...project,
+        displayName: "App",
+        aliases: ["a"],
+        tags: ["work"],
+      });
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { Project, ProjectTreeNode } from "../../src/api/types.js";
+import { discoverTree } from "../../src/api/discover.js";
+import {
+  buildProjectTree,
+  flattenProjectTree,
+  pruneProjectTree,
+  walkProjectTree,
+} from "../../src/api/tree.js";
+
+function project(projectPath: string, overrides?: Partial<Project>): Project {
+  return {
+    path: projectPath,
+    displayPath: undefined,
+    name: projectPath.split("/").pop() ?? projectPath,
+    marker: ".git",
+    label: undefined,
+    displayLabel: undefined,
+    icon: undefined,
+    ansiIcon: undefined,
+    color: undefined,
+    priority: undefined,
+    isWorktree: undefined,
+    worktreeParent: undefined,
+    ...overrides,
+  };
+}
+
+function describeTree(nodes: ProjectTreeNode[]): string[] {
+  const lines: string[] = [];
+  walkProjectTree(nodes, (node, depth) => {
+    const nested = node.type === "project" && node.nested ? " (nested)" : "";
+    lines.push(`${"  ".repeat(depth)}${node.type} ${node.name}${nested}`);
+  });
+  return lines;
+}
+
+describe("buildProjectTree", () => {
+  it("places projects under their search path with directories in between", () => {
+    const tree = buildProjectTree(
+      [project("/code/work/api"), project("/code/web"), project("/other/tool")],
+      ["/code", "/other"]
+    );
+
+    expect(describeTree(tree)).toEqual([
+      "root /code",
+      "  project web",
+      "  directory work",
+      "    project api",
+      "root /other",
+      "  project tool",
+    ]);
+  });
+
+  it("uses the deepest search path containing a project", () => {
+    const tree = buildProjectTree([project("/code/work/api")], ["/code", "/code/work"]);
+
+    expect(tree[0]?.children).toEqual([]);
+    expect(tree[1]?.children.map((n) => n.name)).toEqual(["api"]);
+  });
+
+  it("lists nested projects under their parent project", () => {
+    const tree = buildProjectTree(
+      [project("/code/mono/packages/ui"), project("/code/mono")],
+      ["/code"]
+    );
+
+    expect(describeTree(tree)).toEqual([
+      "root /code",
+      "  project mono",
+      "    directory packages",
+      "      project ui (nested)",
+    ]);
+  });
+
+  it("lists worktrees under their parent repository", () => {
+    const tree = buildProjectTree(
+      [
+        project("/code/app"),
+        project("/code/app-feature", { isWorktree: true, worktreeParent: "/code/app" }),
+        project("/code/orphan", { isWorktree: true, worktreeParent: "/elsewhere" }),
+      ],
+      ["/code"]
+    );
+
+    expect(describeTree(tree)).toEqual([
+      "root /code",
+      "  project app",
+      "    worktree app-feature",
+      "  project orphan",
+    ]);
+  });
+
+  it("adds a root for projects outside every search path", () => {
+    const tree = buildProjectTree([project("/tmp/scratch")], ["/code"]);
+
+    expect(tree.map((r) => r.path)).toEqual(["/code", "/tmp"]);
+    expect(tree[1]?.children[0]?.name).toBe("scratch");
+  });
+});
+
+describe("discoverTree", () => {
+  it("adds a root for each directory a glob search path matches", async () => {
+    const tempDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), "pj-tree-")));
+    try {
+      const acme = path.join(tempDir, "clients", "acme");
+      const globex = path.join(tempDir, "clients", "globex");
+      await fs.mkdir(acme, { recursive: true });
+      await fs.mkdir(globex, { recursive: true });
+      const discoverer = () =>
+        Promise.resolve([project(path.join(acme, "api")), project(path.join(globex, "web"))]);
+
+      const tree = await discoverTree(
+        { paths: [path.join(tempDir, "clients", "*")] },
+        discoverer
+      );
+
+      expect(tree.map((r) => r.path)).toEqual([acme, globex]);
+      expect(describeTree(tree)).toEqual([
+        `root ${acme}`,
+        "  project api",
+        `root ${globex}`,
+        "  project web",
+      ]);
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("walkProjectTree", () => {
+  it("skips children when the visitor returns false", () => {
+    const tree = buildProjectTree(
+      [project("/code/mono"), project("/code/mono/ui")],
+      ["/code"]
+    );
+    const visited: string[] = [];
+    walkProjectTree(tree, (node) => {
+      visited.push(node.name);
+      return node.type !== "project";
+    });
+
+    expect(visited).toEqual(["/code", "mono"]);
+  });
+
+  it("passes each node's parent", () => {
+    const tree = buildProjectTree([project("/code/a/b")], ["/code"]);
+    const parents: (string | undefined)[] = [];
+    walkProjectTree(tree, (_node, _depth, parent) => {
+      parents.push(parent?.name);
+    });
+
+    expect(parents).toEqual([undefined, "/code", "a"]);
+  });
+});
+
+describe("flattenProjectTree", () => {
+  it("lists nodes depth-first", () => {
+    const tree = buildProjectTree(
+      [project("/code/a/x"), project("/code/b")],
+      ["/code"]
+    );
+
+    expect(flattenProjectTree(tree).map((n) => n.path)).toEqual([
+      "/code",
+      "/code/a",
+      "/code/a/x",
+      "/code/b",
+    ]);
+  });
+});
+
+describe("pruneProjectTree", () => {
+  it("keeps matching nodes and their ancestors", () => {
+    const tree = buildProjectTree(
+      [project("/code/a/x"), project("/code/b"), project("/other/c")],
+      ["/code", "/other"]
+    );
+    const pruned = pruneProjectTree(tree, (n) => n.name === "x");
+
+    expect(describeTree(pruned)).toEqual([
+      "root /code",
+      "  directory a",
+      "    project x",
+      "root /other",
+    ]);
+  });
+
+  it("does not modify the input tree", () => {
+    const tree = buildProjectTree([project("/code/a"), project("/code/b")], ["/code"]);
+    pruneProjectTree(tree, () => false);
+
+    expect(tree[0]?.children).toHaveLength(2);
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { discoverNative, sortProjects, walkProjects } from "../../src/native/walker.js";
+import { parseJsonOutput } from "../../src/cli/executor.js";
+import type { Project } from "../../src/api/types.js";
+import { PjAbortError, PjBinaryError } from "../../src/api/types.js";
+import { discover } from "../../src/api/discover.js";
+import { getBinaryManager } from "../../src/binary/manager.js";
+
+async function touch(file: string, content = ""): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, content);
+}
+
+describe("Native Walker", () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "pj-walker-"));
+    await fs.mkdir(path.join(root, "app", ".git"), { recursive: true });
+    await touch(path.join(root, "app", "package.json"));
+    await touch(path.join(root, "app", "packages", "lib", "package.json"));
+    await touch(path.join(root, "tool", "go.mod"));
+    await touch(path.join(root, "node_modules", "dep", "package.json"));
+    await touch(path.join(root, "generated", "x", "Cargo.toml"));
+    await touch(path.join(root, "a", "b", "c", "d", "Makefile"));
+    await touch(path.join(root, ".gitignore"), "generated/\n");
+    await touch(path.join(root, "wt", ".git"), `gitdir: ${path.join(root, "app", ".git", "worktrees", "wt")}\n`);
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  const base = {
+    markers: [".git", "package.json", "go.mod", "Cargo.toml", "Makefile"],
+    excludes: ["node_modules"],
+    maxDepth: 3,
+    priorities: { ".git": 1, "package.json": 10, "go.mod": 10, "Cargo.toml": 10, Makefile: 1 },
+    configPath: "/nonexistent/config.yaml",
+  };
+
+  it("should find projects with the highest priority marker", async () => {
+    const projects = await discoverNative({ ...base, paths: [root], nested: false });
+    const byName = new Map(projects.map((p) => [p.name, p]));
+
+    expect([...byName.keys()].sort()).toEqual(["app", "tool", "wt"]);
+    expect(byName.get("app")?.marker).toBe("package.json");
+    expect(byName.get("app")?.isWorktree).toBe(false);
+    expect(byName.get("wt")).toMatchObject({
+      isWorktree: true,
+      worktreeParent: path.join(root, "app"),
+    });
+  });
+
+  it("should descend into projects when nested is enabled", async () => {
+    const projects = await discoverNative({ ...base, paths: [root], nested: true });
+    expect(projects.map((p) => p.name)).toContain("lib");
+  });
+
+  it("should honor .gitignore unless noIgnore is set", async () => {
+    const ignored = await discoverNative({ ...base, paths: [root] });
+    expect(ignored.map((p) => p.name)).not.toContain("x");
+
+    const all = await discoverNative({ ...base, paths: [root], noIgnore: true });
+    expect(all.map((p) => p.name)).toContain("x");
+  });
+
+  it("should honor maxDepth", async () => {
+    const shallow = await discoverNative({ ...base, paths: [root] });
+    expect(shallow.map((p) => p.name)).not.toContain("d");
+
+    const deep = await discoverNative({ ...base, paths: [root], maxDepth: 4 });
+    expect(deep.map((p) => p.name)).toContain("d");
+  });
+
+  it("should filter worktrees when worktrees is false", async () => {
+    const projects = await discoverNative({ ...base, paths: [root], worktrees: false });
+    expect(projects.map((p) => p.name)).not.toContain("wt");
+  });
+
+  it("should produce projects in the same shape as parseJsonOutput", async () => {
+    const [project] = await discoverNative({ ...base, paths: [path.join(root, "tool")] });
+    const [parsed] = parseJsonOutput(
+      JSON.stringify({ projects: [{ path: project?.path, name: "tool", marker: "go.mod" }] })
+    );
+    expect(Object.keys(project ?? {}).sort()).toEqual(Object.keys(parsed ?? {}).sort());
+  });
+
+  it("should stop walking when the signal is aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      discoverNative({ ...base, paths: [root], signal: controller.signal })
+    ).rejects.toBeInstanceOf(PjAbortError);
+
+    const walking = new AbortController();
+    const found: string[] = [];
+    await expect(async () => {
+      for await (const project of walkProjects({
+        ...base,
+        paths: [root],
+        signal: walking.signal,
+      })) {
+        found.push(project.name);
+        walking.abort();
+      }
+    }).rejects.toBeInstanceOf(PjAbortError);
+    expect(found).toHaveLength(1);
+  });
+
+  it("should not fall back to the native engine for a bad PJ_BINARY_PATH", async () => {
+    const previous = process.env["PJ_BINARY_PATH"];
+    process.env["PJ_BINARY_PATH"] = path.join(root, "missing-pj");
+    try {
+      await expect(discover({ ...base, paths: [root] })).rejects.toBeInstanceOf(
+        PjBinaryError
+      );
+      const native = await discover({ ...base, paths: [root], engine: "native" });
+      expect(native.map((p) => p.name)).toContain("app");
+    } finally {
+      if (previous === undefined) {
+        delete process.env["PJ_BINARY_PATH"];
+      } else {
+        process.env["PJ_BINARY_PATH"] = previous;
+      }
+    }
+  });
+
+  it("should stop trying to get the binary once it is unavailable", async () => {
+    const previous = process.env["PJ_BINARY_PATH"];
+    delete process.env["PJ_BINARY_PATH"];
+    const getBinaryPath = vi
+      .spyOn(getBinaryManager(), "getBinaryPath")
+      .mockRejectedValue(new PjBinaryError("offline"));
+    try {
+      for (let i = 0; i < 3; i++) {
+        const projects = await discover({ ...base, paths: [root] });
+        expect(projects.map((p) => p.name)).toContain("app");
+      }
+      expect(getBinaryPath).toHaveBeenCalledTimes(1);
+
+      await expect(
+        discover({ ...base, paths: [root], engine: "binary" })
+      ).rejects.toBeInstanceOf(PjBinaryError);
+      expect(getBinaryPath).toHaveBeenCalledTimes(2);
+    } finally {
+      getBinaryPath.mockRestore();
+      if (previous !== undefined) {
+        process.env["PJ_BINARY_PATH"] = previous;
+      }
+    }
+  });
+
+  it("should sort projects across search paths with their own settings", async () => {
+    const paths = [
+      { path: path.join(root, "a"), maxDepth: 4 },
+      { path: root, maxDepth: 1 },
+    ];
+    const options = { ...base, paths, engine: "native" as const, nested: false };
+
+    const alpha = await discover({ ...options, sort: "alpha" });
+    expect(alpha.map((p) => p.name)).toEqual(["app", "d", "tool", "wt"]);
+
+    const desc = await discover({ ...options, sort: "alpha", sortDirection: "desc" });
+    expect(desc.map((p) => p.name)).toEqual(["wt", "tool", "d", "app"]);
+  });
+
+  describe("sortProjects", () => {
+    const make = (name: string, marker: string): Project =>
+      ({ name, path: `/${name}`, marker }) as Project;
+    const projects = [make("b", ".git"), make("a", ".git"), make("c", "go.mod")];
+    const priorities = { ".git": 1, "go.mod": 10 };
+
+    it("should sort by priority, highest first, by default", () => {
+      expect(sortProjects(projects, priorities).map((p) => p.name)).toEqual(["c", "a", "b"]);
+    });
+
+    it("should sort alphabetically", () => {
+      expect(sortProjects(projects, priorities, "alpha").map((p) => p.name)).toEqual(["a", "b", "c"]);
+      expect(sortProjects(projects, priorities, "alpha", "desc").map((p) => p.name)).toEqual(["c", "b", "a"]);
+    });
+  });
+});
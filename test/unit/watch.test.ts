@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { once } from "node:events";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { ProjectEvent, WatchOptions } from "../../src/api/types.js";
+import { ProjectWatcher } from "../../src/api/watch.js";
+
+async function touch(file: string, content = ""): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, content);
+}
+
+/** Number of active filesystem watchers in the process */
+function activeFsWatchers(): number {
+  return process.getActiveResourcesInfo().filter((name) => name === "FSEventWrap").length;
+}
+
+describe("Project Watcher", () => {
+  let root: string;
+  let watcher: ProjectWatcher | undefined;
+
+  beforeEach(async () => {
+    root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), "pj-watch-")));
+    await fs.mkdir(path.join(root, "app", ".git"), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await watcher?.close();
+    watcher = undefined;
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  async function start(options?: WatchOptions): Promise<ProjectWatcher> {
+    watcher = new ProjectWatcher({
+      paths: [root],
+      markers: [".git", "package.json"],
+      priorities: { ".git": 1, "package.json": 10 },
+      maxDepth: 2,
+      engine: "native",
+      configPath: path.join(root, "missing.yaml"),
+      debounceMs: 50,
+      ...options,
+    });
+    await watcher.ready;
+    return watcher;
+  }
+
+  it("should report the initial projects when ready", async () => {
+    const started = await start();
+    expect(started.getProjects().map((p) => p.name)).toEqual(["app"]);
+  });
+
+  it("should emit added and removed events", async () => {
+    const started = await start();
+
+    const added = once(started, "added") as Promise<[ProjectEvent]>;
+    await touch(path.join(root, "tool", "package.json"));
+    const [addedEvent] = await added;
+    expect(addedEvent).toMatchObject({ type: "added", project: { name: "tool" } });
+
+    const removed = once(started, "removed") as Promise<[ProjectEvent]>;
+    await fs.rm(path.join(root, "tool"), { recursive: true });
+    const [removedEvent] = await removed;
+    expect(removedEvent).toMatchObject({ type: "removed", project: { name: "tool" } });
+    expect(started.getProjects().map((p) => p.name)).toEqual(["app"]);
+  });
+
+  it("should emit changed events when a project's marker changes", async () => {
+    const started = await start();
+
+    const changed = once(started, "changed") as Promise<[ProjectEvent]>;
+    await touch(path.join(root, "app", "package.json"));
+    const [event] = await changed;
+
+    expect(event.project).toMatchObject({ name: "app", marker: "package.json" });
+    expect(event.previous).toMatchObject({ name: "app", marker: ".git" });
+  });
+
+  it("should coalesce bursts of activity into one rescan", async () => {
+    const started = await start({ debounceMs: 200 });
+
+    // Events of one rescan are emitted synchronously, in a single batch
+    const batches: string[][] = [];
+    let batch: string[] | undefined;
+    started.on("added", ({ project }) => {
+      if (!batch) {
+        const current: string[] = [];
+        batches.push(current);
+        batch = current;
+        queueMicrotask(() => {
+          batch = undefined;
+        });
+      }
+      batch.push(project.name);
+    });
+
+    const settled = once(started, "added");
+    for (const name of ["one", "two", "three"]) {
+      await touch(path.join(root, name, "package.json"));
+    }
+    await settled;
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0]?.sort()).toEqual(["one", "three", "two"]);
+  });
+
+  it("should release its filesystem watchers when closed", async () => {
+    const before = activeFsWatchers();
+    const started = await start();
+    expect(activeFsWatchers()).toBeGreaterThan(before);
+
+    const events: ProjectEvent[] = [];
+    started.on("event", (event) => events.push(event));
+    await started.close();
+
+    expect(started.isClosed()).toBe(true);
+    // Handles are released asynchronously
+    await vi.waitFor(() => {
+      expect(activeFsWatchers()).toBe(before);
+    });
+
+    await touch(path.join(root, "late", "package.json"));
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    expect(events).toEqual([]);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { Project } from "../../src/api/types.js";
+import {
+  expandWorkspaces,
+  parseCargoWorkspace,
+  parseGoWork,
+  parsePackageJsonWorkspaces,
+  parsePoetryWorkspace,
+  parseUvWorkspace,
+  readWorkspaceMembers,
+} from "../../src/enrich/workspaces.js";
+
+function project(projectPath: string, marker: string): Project {
+  return {
+    path: projectPath,
+    displayPath: undefined,
+    name: path.basename(projectPath),
+    marker,
+    label: undefined,
+    displayLabel: undefined,
+    icon: undefined,
+    ansiIcon: undefined,
+    color: undefined,
+    priority: undefined,
+    isWorktree: undefined,
+    worktreeParent: undefined,
+  };
+}
+
+describe("Workspaces", () => {
+  describe("parsers", () => {
+    it("should read npm and yarn workspaces", () => {
+      expect(parsePackageJsonWorkspaces('{"workspaces": ["packages/*"]}')).toEqual([
+        "packages/*",
+      ]);
+      expect(
+        parsePackageJsonWorkspaces('{"workspaces": {"packages": ["apps/*"]}}')
+      ).toEqual(["apps/*"]);
+      expect(parsePackageJsonWorkspaces("{}")).toEqual([]);
+    });
+
+    it("should read Cargo members and excludes", () => {
+      const content = `
+[workspace]
+members = ["crates/*"]
+exclude = ["crates/scratch"]
+`;
+      expect(parseCargoWorkspace(content)).toEqual(["crates/*", "!crates/scratch"]);
+    });
+
+    it("should read go.work use directives", () => {
+      const content = `go 1.22
+
+use ./tools
+
+use (
+	./api // the API
+	"./web"
+)
+`;
+      expect(parseGoWork(content)).toEqual(["./tools", "./api", "./web"]);
+    });
+
+    it("should read uv members and poetry path dependencies", () => {
+      expect(
+        parseUvWorkspace('[tool.uv.workspace]\nmembers = ["libs/*"]\nexclude = ["libs/old"]')
+      ).toEqual(["libs/*", "!libs/old"]);
+
+      const poetry = `
+[tool.poetry.dependencies]
+python = "^3.12"
+core = { path = "libs/core", develop = true }
+
+[tool.poetry.group.dev.dependencies]
+testkit = { path = "libs/testkit" }
+`;
+      expect(parsePoetryWorkspace(poetry)).toEqual(["libs/core", "libs/testkit"]);
+    });
+  });
+
+  describe("readWorkspaceMembers", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), "pj-workspaces-"));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    async function write(relative: string, content: string): Promise<void> {
+      await fs.mkdir(path.dirname(path.join(dir, relative)), { recursive: true });
+      await fs.writeFile(path.join(dir, relative), content);
+    }
+
+    it("should expand globs, apply exclusions and require a manifest", async () => {
+      await write(
+        "package.json",
+        JSON.stringify({ workspaces: ["packages/*", "!packages/skip"] })
+      );
+      await write("packages/a/package.json", "{}");
+      await write("packages/b/package.json", "{}");
+      await write("packages/skip/package.json", "{}");
+      await fs.mkdir(path.join(dir, "packages/empty"));
+
+      const members = await readWorkspaceMembers(dir);
+      expect(members).toEqual([
+        { path: path.join(dir, "packages/a"), marker: "package.json", tool: "npm" },
+        { path: path.join(dir, "packages/b"), marker: "package.json", tool: "npm" },
+      ]);
+    });
+
+    it("should ignore members outside the root", async () => {
+      await write("go.work", "use (\n\t./svc\n\t../elsewhere\n)\n");
+      await write("svc/go.mod", "module example.com/svc\n");
+
+      const members = await readWorkspaceMembers(dir);
+      expect(members.map((m) => m.path)).toEqual([path.join(dir, "svc")]);
+    });
+
+    it("should list members after their root without duplicates", async () => {
+      await write("Cargo.toml", '[workspace]\nmembers = ["crates/*"]\n');
+      await write("crates/core/Cargo.toml", '[package]\nname = "core"\n');
+      await write("crates/cli/Cargo.toml", '[package]\nname = "cli"\n');
+
+      const other = path.join(os.tmpdir(), "other");
+      const projects = await expandWorkspaces(
+        [
+          project(path.join(dir, "crates/cli"), "Cargo.toml"),
+          project(dir, "Cargo.toml"),
+          project(other, ".git"),
+        ],
+        { configPath: path.join(dir, "missing.yaml") }
+      );
+
+      expect(projects.map((p) => [p.path, p.workspaceRoot])).toEqual([
+        [dir, undefined],
+        [path.join(dir, "crates/cli"), dir],
+        [path.join(dir, "crates/core"), dir],
+        [other, undefined],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { parseWorktreeList } from "../../src/enrich/worktrees.js";
+
+describe("parseWorktreeList", () => {
+  it("should parse branches, detached HEADs and the main worktree", () => {
+    const output = [
+      "worktree /code/app",
+      "HEAD 1a2b3c4d",
+      "branch refs/heads/main",
+      "",
+      "worktree /code/app-fix",
+      "HEAD 5e6f7a8b",
+      "detached",
+      "",
+    ].join("\n");
+
+    expect(parseWorktreeList(output)).toEqual([
+      {
+        path: "/code/app",
+        head: "1a2b3c4d",
+        branch: "main",
+        main: true,
+        bare: false,
+        detached: false,
+        locked: false,
+        lockReason: undefined,
+        prunable: false,
+        prunableReason: undefined,
+      },
+      {
+        path: "/code/app-fix",
+        head: "5e6f7a8b",
+        branch: undefined,
+        main: false,
+        bare: false,
+        detached: true,
+        locked: false,
+        lockReason: undefined,
+        prunable: false,
+        prunableReason: undefined,
+      },
+    ]);
+  });
+
+  it("should parse locked and prunable worktrees with and without reasons", () => {
+    const output = [
+      "worktree /code/app",
+      "bare",
+      "",
+      "worktree /code/usb",
+      "HEAD 1a2b3c4d",
+      "branch refs/heads/feature/x",
+      "locked on removable drive",
+      "",
+      "worktree /code/gone",
+      "HEAD 5e6f7a8b",
+      "branch refs/heads/old",
+      "locked",
+      "prunable gitdir file points to non-existent location",
+      "",
+    ].join("\n");
+
+    const [bare, usb, gone] = parseWorktreeList(output);
+    expect(bare).toMatchObject({ bare: true, main: true, head: undefined });
+    expect(usb).toMatchObject({
+      branch: "feature/x",
+      locked: true,
+      lockReason: "on removable drive",
+      prunable: false,
+    });
+    expect(gone).toMatchObject({
+      locked: true,
+      lockReason: undefined,
+      prunable: true,
+      prunableReason: "gitdir file points to non-existent location",
+    });
+  });
+
+  it("should treat an all-zero HEAD as an unborn branch", () => {
+    const output = [
+      "worktree /code/new",
+      `HEAD ${"0".repeat(40)}`,
+      "branch refs/heads/main",
+    ].join("\n");
+    expect(parseWorktreeList(output)[0]?.head).toBeUndefined();
+  });
+});